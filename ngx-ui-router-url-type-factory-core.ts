@@ -0,0 +1,13 @@
+/**
+ * Export core, free of Angular
+ */
+export * from "./src/factory/url-type-factory-cache";
+export * from "./src/factory/url-type-factory-core";
+export * from "./src/factory/url-type-factory-devtools";
+export * from "./src/factory/url-type-factory-error";
+export * from "./src/factory/url-type-factory-error-policy";
+export * from "./src/factory/url-type-factory-options";
+export * from "./src/factory/url-type-factory-pending";
+export * from "./src/factory/url-type-factory-plugin";
+export * from "./src/factory/url-type-factory-resolve-policy";
+export * from "./src/factory/url-type-factory-types";
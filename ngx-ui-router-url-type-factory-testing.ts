@@ -0,0 +1,7 @@
+/**
+ * Export testing
+ */
+export * from "./src/testing/module";
+export * from "./src/testing/url-type-factory-testing-configuration";
+export * from "./src/testing/url-type-factory-testing.service";
+export * from "./src/testing/url-type-testing-controller";
@@ -7,7 +7,34 @@ export * from "./src/module";
 /**
  * Export factory
  */
+export * from "./src/factory/url-type-factory-cache";
 export * from "./src/factory/url-type-factory-configuration";
+export * from "./src/factory/url-type-factory-core";
+export * from "./src/factory/url-type-factory-devtools";
 export * from "./src/factory/url-type-factory-error";
+export * from "./src/factory/url-type-factory-error-policy";
+export * from "./src/factory/url-type-factory-options";
+export * from "./src/factory/url-type-factory-pending";
+export * from "./src/factory/url-type-factory-plugin";
+export * from "./src/factory/url-type-factory-resolve-policy";
+export * from "./src/factory/url-type-factory-rest";
+export * from "./src/factory/url-type-factory-token";
+export * from "./src/factory/url-type-factory-types";
 export * from "./src/factory/url-type-factory.service";
 export * from "./src/factory/url-type-factory";
+
+
+/**
+ * Export directives
+ */
+export * from "./src/directives/url-type-outlet.directive";
+export * from "./src/directives/url-type-prefetch.directive";
+export * from "./src/directives/url-type-view.directive";
+
+
+/**
+ * Export router
+ */
+export * from "./src/router/url-type-route-matcher";
+export * from "./src/router/url-type-route.resolver";
+export * from "./src/router/url-type-route";
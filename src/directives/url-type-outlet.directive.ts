@@ -0,0 +1,117 @@
+import {
+    ComponentFactoryResolver,
+    Directive,
+    OnDestroy,
+    OnInit,
+    Self,
+    Type,
+    ViewContainerRef
+} from '@angular/core';
+import { RouterOutlet } from '@angular/router';
+
+import { Subscription } from 'rxjs';
+
+import { URL_TYPE_ROUTE_RESOLVE_KEY, UrlTypeRouteResolved } from '../router/url-type-route.resolver';
+
+
+/**
+ * Directive that is attached to every `router-outlet` and binds the URL type parameters
+ * resolved for Angular routes created by `createUrlTypeRoute` to the `@Input()` bindings of
+ * the routed component.
+ */
+@Directive({
+    selector: 'router-outlet',
+})
+export class UrlTypeOutletDirective implements OnInit, OnDestroy {
+
+    protected _subscriptions: Subscription[] = [];
+    protected _dataSubscription: Subscription = null;
+
+    constructor(@Self() protected _outlet: RouterOutlet,
+                protected _viewContainerRef: ViewContainerRef,
+                protected _componentFactoryResolver: ComponentFactoryResolver) {
+    }
+
+    ngOnInit() {
+        this._subscriptions.push(
+            this._outlet.activateEvents.subscribe(() => this.bindRoute()),
+            this._outlet.deactivateEvents.subscribe(() => this.releaseRoute())
+        );
+
+        /*
+         * Outlets created after the navigation, e.g. of child routes, activate their route
+         * when they get initialized, which may be before this directive subscribed.
+         */
+        if (this._outlet.isActivated) {
+            this.bindRoute();
+        }
+    }
+
+    ngOnDestroy() {
+        this.releaseRoute();
+
+        for (const subscription of this._subscriptions) {
+            subscription.unsubscribe();
+        }
+
+        this._subscriptions = [];
+    }
+
+    /**
+     * Binds the resolved objects of the activated route to the routed component, including
+     * the objects resolved later on if the parameters of the route change.
+     */
+    protected bindRoute() {
+        this.releaseRoute();
+
+        if (!this._outlet.isActivated) {
+            return;
+        }
+
+        const component = this._outlet.component,
+            componentType = <Type<any>>this._outlet.activatedRoute.component;
+
+        this._dataSubscription = this._outlet.activatedRoute.data.subscribe((data) => {
+            if (data[URL_TYPE_ROUTE_RESOLVE_KEY]) {
+                this.applyBindings(component, componentType, data[URL_TYPE_ROUTE_RESOLVE_KEY]);
+            }
+        });
+    }
+
+    /**
+     * Stops binding the resolved objects of the previously activated route.
+     */
+    protected releaseRoute() {
+        if (this._dataSubscription) {
+            this._dataSubscription.unsubscribe();
+        }
+
+        this._dataSubscription = null;
+    }
+
+    /**
+     * Applies the bindings of the given resolved objects to the inputs of the given component
+     * of the given type.
+     * @param {any} component
+     * @param {Type<any>} componentType
+     * @param {UrlTypeRouteResolved} resolved
+     */
+    protected applyBindings(component: any, componentType: Type<any>, resolved: UrlTypeRouteResolved) {
+        const factory = this._componentFactoryResolver.resolveComponentFactory(componentType),
+            view = this._viewContainerRef.length ? this._viewContainerRef.get(0) : null;
+
+        for (const input of factory.inputs) {
+            if (resolved.bindings.hasOwnProperty(input.templateName)) {
+                component[input.propName] = resolved.bindings[input.templateName];
+            }
+        }
+
+        /*
+         * The outlet renders the routed component as the only view of its container.
+         */
+        if (view) {
+            view.markForCheck();
+        }
+    }
+
+}
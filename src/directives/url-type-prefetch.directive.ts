@@ -0,0 +1,119 @@
+import {
+    Directive,
+    ElementRef,
+    HostListener,
+    Input,
+    OnDestroy,
+    OnInit,
+    Self
+} from '@angular/core';
+
+import { UISref } from '@uirouter/angular';
+import { TargetState } from '@uirouter/core';
+import { Subscription } from 'rxjs';
+
+import { UrlTypeFactoryService } from '../factory/url-type-factory.service';
+
+
+/**
+ * Event that starts prefetching the target state of a `uiSref` link.
+ */
+export type UrlTypePrefetchTrigger = 'hover' | 'visible';
+
+
+/**
+ * Directive that starts resolving the URL type parameters of the target state of a `uiSref`
+ * link before it gets clicked, e.g. `<a uiSref="project" [uiParams]="{project: 1}"
+ * [uiSrefPrefetch]="'hover'">`.
+ */
+@Directive({
+    selector: '[uiSref][uiSrefPrefetch]',
+})
+export class UrlTypePrefetchDirective implements OnInit, OnDestroy {
+
+    /**
+     * Event that starts prefetching.
+     */
+    @Input() uiSrefPrefetch: UrlTypePrefetchTrigger = 'hover';
+
+    protected _targetState: TargetState = null;
+    protected _subscription: Subscription = null;
+    protected _observer: IntersectionObserver = null;
+
+    constructor(@Self() protected _uiSref: UISref,
+                protected _elementRef: ElementRef,
+                protected _service: UrlTypeFactoryService) {
+    }
+
+    ngOnInit() {
+        this._subscription = this._uiSref.targetState$.subscribe((targetState) => {
+            this._targetState = targetState;
+
+            if (this.uiSrefPrefetch === 'visible') {
+                this.observeVisibility();
+            }
+        });
+    }
+
+    ngOnDestroy() {
+        if (this._subscription) {
+            this._subscription.unsubscribe();
+        }
+
+        this.stopObservingVisibility();
+        this._subscription = null;
+    }
+
+    @HostListener('mouseenter')
+    @HostListener('focus')
+    onHover() {
+        if (this.uiSrefPrefetch === 'hover') {
+            this.prefetch();
+        }
+    }
+
+    /**
+     * Starts resolving the URL type parameters of the current target state.
+     * @returns {Promise<void>}
+     */
+    prefetch(): Promise<void> {
+        if (!this._targetState) {
+            return Promise.resolve();
+        }
+
+        return this._service.prefetch(this._targetState);
+    }
+
+    /**
+     * Prefetches the target state as soon as the element gets visible. Prefetches immediately
+     * if visibility can not be observed, e.g. when rendering on the server.
+     */
+    protected observeVisibility() {
+        this.stopObservingVisibility();
+
+        if (typeof IntersectionObserver === 'undefined') {
+            this.prefetch();
+            return;
+        }
+
+        this._observer = new IntersectionObserver((entries) => {
+            if (entries.some((entry) => entry.isIntersecting)) {
+                this.stopObservingVisibility();
+                this.prefetch();
+            }
+        });
+        this._observer.observe(this._elementRef.nativeElement);
+    }
+
+    /**
+     * Stops observing the visibility of the element.
+     */
+    protected stopObservingVisibility() {
+        if (this._observer) {
+            this._observer.disconnect();
+        }
+
+        this._observer = null;
+    }
+
+}
@@ -0,0 +1,168 @@
+import {
+    ChangeDetectorRef,
+    ComponentFactoryResolver,
+    ComponentRef,
+    Directive,
+    OnDestroy,
+    OnInit,
+    Self,
+    SimpleChange,
+    SimpleChanges
+} from '@angular/core';
+
+import { Ng2ViewDeclaration, UIView } from '@uirouter/angular';
+import { ResolveContext, ViewConfig } from '@uirouter/core';
+import { Subscription } from 'rxjs';
+
+import { UrlTypeParamUpdate } from '../factory/url-type-factory-types';
+import { UrlTypeFactoryService } from '../factory/url-type-factory.service';
+
+
+/**
+ * Gets the view config the given `ui-view` currently renders. `UIView` does not expose its
+ * view config, so this is the only place reading its private `_uiViewData`, as set by
+ * `@uirouter/angular` 8. Returns `null` if the internals changed, which disables live input
+ * updates instead of failing.
+ * @param {UIView} uiView
+ * @returns {ViewConfig}
+ */
+function getUIViewConfig(uiView: UIView): ViewConfig {
+    const data = uiView['_uiViewData'],
+        config: ViewConfig = data && data.config;
+
+    if (!config || !Array.isArray(config.path) || !config.viewDecl) {
+        return null;
+    }
+
+    return config;
+}
+
+
+/**
+ * Sets the given inputs of the given component to the given value the way template bindings
+ * do, by `ComponentRef.setInput` where available (Angular 14.1 and later). Otherwise the inputs
+ * are assigned, `ngOnChanges` gets called with the changed inputs and the view of the component
+ * gets marked for check, so components using `OnPush` get updated as well.
+ * @param {ComponentRef<any>} componentRef
+ * @param {{propName: string, templateName: string}[]} inputs
+ * @param {any} value
+ */
+function setComponentInputs(componentRef: ComponentRef<any>, inputs: { propName: string, templateName: string }[],
+                            value: any) {
+    const instance = componentRef.instance,
+        changes: SimpleChanges = {};
+
+    if (typeof componentRef['setInput'] === 'function') {
+        for (const input of inputs) {
+            componentRef['setInput'](input.templateName, value);
+        }
+        return;
+    }
+
+    for (const input of inputs) {
+        const previousValue = instance[input.propName];
+
+        if (previousValue !== value) {
+            instance[input.propName] = value;
+            changes[input.propName] = new SimpleChange(previousValue, value, false);
+        }
+    }
+
+    if (!Object.keys(changes).length) {
+        return;
+    }
+
+    if (typeof instance.ngOnChanges === 'function') {
+        instance.ngOnChanges(changes);
+    }
+
+    componentRef.injector.get(ChangeDetectorRef).markForCheck();
+}
+
+
+/**
+ * Directive that is attached to every `ui-view` and applies updated URL type parameters
+ * to the `@Input()` bindings of the routed component.
+ */
+@Directive({
+    selector: 'ui-view, [ui-view]',
+})
+export class UrlTypeViewDirective implements OnInit, OnDestroy {
+
+    protected _subscription: Subscription = null;
+
+    constructor(@Self() protected _uiView: UIView, protected _service: UrlTypeFactoryService) {
+    }
+
+    ngOnInit() {
+        this._subscription = this._service.paramUpdates.subscribe((update) => this.applyUpdate(update));
+    }
+
+    ngOnDestroy() {
+        if (this._subscription) {
+            this._subscription.unsubscribe();
+        }
+
+        this._subscription = null;
+    }
+
+    /**
+     * Applies the given parameter update to the routed component if the component
+     * is bound to one of the updated resolvables.
+     * @param {UrlTypeParamUpdate} update
+     */
+    protected applyUpdate(update: UrlTypeParamUpdate) {
+        const componentRef = this._uiView._componentRef,
+            config = getUIViewConfig(this._uiView);
+
+        if (!componentRef || !config) {
+            return;
+        }
+
+        const context = new ResolveContext(config.path),
+            tokens = [];
+
+        /*
+         * Views of retained states keep the resolvables of the transition that entered
+         * them, so resolvables are compared by their origin.
+         */
+        for (const resolvable of update.resolvables) {
+            const viewResolvable = context.getResolvable(resolvable.token);
+
+            if (!viewResolvable ||
+                this._service.getResolvableOrigin(viewResolvable) !== this._service.getResolvableOrigin(resolvable)) {
+                continue;
+            }
+
+            if (viewResolvable !== resolvable && viewResolvable.resolved) {
+                viewResolvable.data = update.value;
+            }
+
+            if (typeof resolvable.token === 'string') {
+                tokens.push(resolvable.token);
+            }
+        }
+
+        if (!tokens.length) {
+            return;
+        }
+
+        const factory = componentRef.injector.get(ComponentFactoryResolver)
+                .resolveComponentFactory(componentRef.componentType),
+            bindings = (<Ng2ViewDeclaration>config.viewDecl).bindings || {},
+            explicitInputs = Object.keys(bindings);
+
+        /*
+         * Resolve the input the same way as ui-router does: explicit bindings of the
+         * view declaration first, the input name matching the token otherwise.
+         */
+        setComponentInputs(componentRef, factory.inputs.filter((input) => {
+            const token = explicitInputs.indexOf(input.templateName) !== -1 ?
+                bindings[input.templateName] :
+                input.templateName;
+
+            return tokens.indexOf(token) !== -1;
+        }), update.value);
+    }
+
+}
@@ -0,0 +1,242 @@
+import { Observable } from 'rxjs';
+import { shareReplay, tap } from 'rxjs/operators';
+
+import { UrlTypeCacheConfiguration } from './url-type-factory-options';
+
+
+/**
+ * A single cached resolve result.
+ */
+interface UrlTypeFactoryCacheEntry {
+    value: Observable<any>;
+    expires: number;
+    settled: boolean;
+    resolved: any;
+}
+
+
+/**
+ * Snapshot of a cached resolve result.
+ */
+export interface UrlTypeFactoryCacheSnapshot {
+
+    /**
+     * Time in milliseconds since the epoch the entry expires at, `Infinity` if it does not expire.
+     */
+    expires: number;
+
+    /**
+     * Determines if the object got resolved by now.
+     */
+    settled: boolean;
+
+    /**
+     * The last resolved object, `undefined` if it is pending.
+     */
+    resolved: any;
+
+}
+
+
+/**
+ * Cache for resolved URL type objects, keyed by the type name and the represented value
+ * of the object. Entries of each type are evicted in least-recently-used order as soon
+ * as the configured maximum size is exceeded.
+ */
+export class UrlTypeFactoryCache {
+
+    protected _entries = new Map<string, Map<string, UrlTypeFactoryCacheEntry>>();
+
+    /**
+     * Gets the cached resolve result for the given type and represented value. Returns `null`
+     * if there is no entry or the entry has expired.
+     * @param {string} typeName
+     * @param {any} repr
+     * @returns {Observable<any>}
+     */
+    get(typeName: string, repr: any): Observable<any> {
+        const typeEntries = this._entries.get(typeName),
+            key = String(repr),
+            entry = typeEntries && typeEntries.get(key);
+
+        if (!entry) {
+            return null;
+        }
+
+        if (entry.expires <= Date.now()) {
+            typeEntries.delete(key);
+            return null;
+        }
+
+        /*
+         * Re-insert the entry to mark it as the most recently used one.
+         */
+        typeEntries.delete(key);
+        typeEntries.set(key, entry);
+
+        return entry.value;
+    }
+
+    /**
+     * Stores the given resolve result for the given type and represented value.
+     * @param {string} typeName
+     * @param {any} repr
+     * @param {Observable<any>} value
+     * @param {UrlTypeCacheConfiguration} configuration
+     */
+    set(typeName: string, repr: any, value: Observable<any>, configuration: UrlTypeCacheConfiguration) {
+        const key = String(repr),
+            entry: UrlTypeFactoryCacheEntry = {
+                value: value,
+                expires: configuration.ttl ? Date.now() + configuration.ttl : Infinity,
+                settled: false,
+                resolved: undefined,
+            };
+        let typeEntries = this._entries.get(typeName);
+
+        if (!typeEntries) {
+            typeEntries = new Map<string, UrlTypeFactoryCacheEntry>();
+            this._entries.set(typeName, typeEntries);
+        }
+
+        typeEntries.delete(key);
+        typeEntries.set(key, entry);
+
+        /*
+         * Evict the least recently used entries if the type exceeds its maximum size.
+         */
+        if (configuration.maxSize) {
+            while (typeEntries.size > configuration.maxSize) {
+                typeEntries.delete(typeEntries.keys().next().value);
+            }
+        }
+    }
+
+    /**
+     * Stores the given resolve result for the given type and represented value, and returns
+     * the shared observable to use instead of the given one. Failed results are removed as
+     * soon as they fail, pending results as soon as the given signal aborts.
+     * @param {string} typeName
+     * @param {any} repr
+     * @param {Observable<T>} resolved
+     * @param {UrlTypeCacheConfiguration} configuration
+     * @param {AbortSignal} signal
+     * @returns {Observable<T>}
+     */
+    store<T>(typeName: string, repr: any, resolved: Observable<T>, configuration: UrlTypeCacheConfiguration,
+             signal: AbortSignal): Observable<T> {
+        let cached: Observable<T>,
+            settled = false;
+
+        cached = resolved.pipe(
+            tap({
+                next: (value) => {
+                    settled = true;
+                    this.settle(typeName, repr, cached, value);
+                },
+                error: () => {
+                    settled = true;
+                    this.remove(typeName, repr, cached);
+                },
+            }),
+            shareReplay({bufferSize: 1, refCount: true})
+        );
+        this.set(typeName, repr, cached, configuration);
+
+        signal.addEventListener('abort', () => {
+            if (!settled) {
+                this.remove(typeName, repr, cached);
+            }
+        });
+
+        return cached;
+    }
+
+    /**
+     * Records the given object resolved by the given resolve result for snapshots, if the entry
+     * of the given represented value still holds the resolve result.
+     * @param {string} typeName
+     * @param {any} repr
+     * @param {Observable<any>} value
+     * @param {any} resolved
+     */
+    settle(typeName: string, repr: any, value: Observable<any>, resolved: any) {
+        const typeEntries = this._entries.get(typeName),
+            entry = typeEntries && typeEntries.get(String(repr));
+
+        if (entry && entry.value === value) {
+            entry.settled = true;
+            entry.resolved = resolved;
+        }
+    }
+
+    /**
+     * Gets snapshots of all entries that did not expire, by type name and represented value.
+     * @returns {{[typeName: string]: {[repr: string]: UrlTypeFactoryCacheSnapshot}}}
+     */
+    snapshot(): { [typeName: string]: { [repr: string]: UrlTypeFactoryCacheSnapshot } } {
+        const snapshot = {},
+            now = Date.now();
+
+        this._entries.forEach((typeEntries, typeName) => {
+            snapshot[typeName] = {};
+
+            typeEntries.forEach((entry, key) => {
+                if (entry.expires > now) {
+                    snapshot[typeName][key] = {
+                        expires: entry.expires,
+                        settled: entry.settled,
+                        resolved: entry.resolved,
+                    };
+                }
+            });
+        });
+
+        return snapshot;
+    }
+
+    /**
+     * Removes the entry of the given represented value from the cache if it still holds
+     * the given resolve result.
+     * @param {string} typeName
+     * @param {any} repr
+     * @param {Observable<any>} value
+     */
+    remove(typeName: string, repr: any, value: Observable<any>) {
+        const typeEntries = this._entries.get(typeName),
+            key = String(repr),
+            entry = typeEntries && typeEntries.get(key);
+
+        if (entry && entry.value === value) {
+            typeEntries.delete(key);
+        }
+    }
+
+    /**
+     * Removes the entry of the given represented value from the cache. Removes all entries
+     * of the type if no represented value is given.
+     * @param {string} typeName
+     * @param {any} repr
+     */
+    invalidate(typeName: string, repr?: any) {
+        const typeEntries = this._entries.get(typeName);
+
+        if (!typeEntries) {
+            return;
+        }
+
+        if (repr === undefined) {
+            typeEntries.clear();
+        } else {
+            typeEntries.delete(String(repr));
+        }
+    }
+
+    /**
+     * Removes all entries from the cache.
+     */
+    clear() {
+        this._entries.clear();
+    }
+
+}
@@ -0,0 +1,39 @@
+import { Transition } from '@uirouter/core';
+
+import { UrlType } from './url-type-factory-types';
+import { compareReprs, getObjectRepr } from './url-type-factory-values';
+
+
+/**
+ * Checks if the given decoded parameter value is the canonical representation of the
+ * given resolved object. Values of types that did not opt in are always canonical.
+ * @param {UrlType<any>} type
+ * @param {any} value
+ * @param {any} resolved
+ * @returns {boolean}
+ */
+export function isCanonicalValue(type: UrlType<any>, value: any, resolved: any): boolean {
+    const values = Array.isArray(value) ? value : [value],
+        objects = Array.isArray(resolved) ? resolved : [resolved];
+
+    if (!type.canonical) {
+        return true;
+    }
+
+    return values.every((v, i) => !v || typeof v !== 'object' || !objects[i] ||
+        compareReprs(getObjectRepr(type, v), String(type.represent(objects[i])), type.reprComparison));
+}
+
+
+/**
+ * Replaces the URL of the given successful transition by the URL of its resolved parameters,
+ * if the transition got started by an URL change and is still active.
+ * @param {Transition} transition
+ */
+export function replaceByCanonicalUrl(transition: Transition) {
+    const state = transition.$to().navigable;
+
+    if (state && state.url && transition.options().source === 'url' && transition.isActive()) {
+        transition.router.urlRouter.push(state.url, transition.params('to'), {replace: true});
+    }
+}
@@ -1,12 +1,46 @@
 import { InjectionToken, Type } from '@angular/core';
 
-import { UrlType } from './url-type-factory.service';
+import { UrlType } from './url-type-factory-types';
+import { UrlTypeFactoryOptions } from './url-type-factory-options';
 
 
-export interface UrlTypeFactoryConfiguration {
+export interface UrlTypeFactoryConfiguration extends UrlTypeFactoryOptions {
+
+    /**
+     * Classes of the types to register. They are created by the injector, so types may use
+     * constructor injection if they are decorated with `@Injectable()`. Further types can be
+     * provided by the `URL_TYPE` token. Angular routes listing these classes use the same instances.
+     */
+    types?: Type<UrlType<any>>[];
+
+}
+
+
+export interface UrlTypeFactoryChildConfiguration {
+
+    /**
+     * Classes of the types a lazy-loaded module registers as soon as it gets loaded. They are
+     * created by the injector of that module, which is also passed to `UrlType.resolve`.
+     */
     types: Type<UrlType<any>>[];
+
 }
 
 
 export const URL_TYPE_FACTORY_CONFIGURATION =
     new InjectionToken<UrlTypeFactoryConfiguration>('NGX_UI_ROUTER_URL_TYPE_FACTORY_CONFIGURATION');
+
+
+/**
+ * Multi-provider token of URL types to register next to the types of the module configuration,
+ * e.g. `{provide: URL_TYPE, useClass: ProjectUrlType, multi: true}`.
+ */
+export const URL_TYPE =
+    new InjectionToken<UrlType<any>[]>('NGX_UI_ROUTER_URL_TYPE');
+
+
+/**
+ * Multi-provider token of the URL types of a lazy-loaded module, provided by `forChild()`.
+ */
+export const CHILD_URL_TYPE =
+    new InjectionToken<UrlType<any>[]>('NGX_UI_ROUTER_CHILD_URL_TYPE');
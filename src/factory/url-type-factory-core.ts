@@ -0,0 +1,1580 @@
+import { Resolvable, ResolveContext, TargetState, Transition } from '@uirouter/core';
+import { UIRouter } from '@uirouter/core/lib/router';
+import { StateObject } from '@uirouter/core/lib/state';
+import { Param } from '@uirouter/core/lib/params';
+import {
+    BehaviorSubject,
+    combineLatest,
+    firstValueFrom,
+    Observable,
+    of,
+    Subject
+} from 'rxjs';
+import { distinctUntilChanged, map, shareReplay } from 'rxjs/operators';
+
+import { UrlTypeCacheConfiguration, UrlTypeFactoryOptions } from './url-type-factory-options';
+import { UrlTypeFactoryCache } from './url-type-factory-cache';
+import { isCanonicalValue, replaceByCanonicalUrl } from './url-type-factory-canonical';
+import { setDevtoolsHook, UrlTypeFactoryDevtools } from './url-type-factory-devtools';
+import {
+    createErrorRedirect,
+    findErrorRule
+} from './url-type-factory-error-policy';
+import {
+    applyResolvePolicy,
+    mergeResolvePolicies,
+    UrlTypeResolvePolicy
+} from './url-type-factory-resolve-policy';
+import { createResolveError, UrlTypeFactoryRegistrationError } from './url-type-factory-error';
+import { UrlTypeLiveParam, UrlTypeLiveParams } from './url-type-factory-live';
+import { UrlTypePendingValue } from './url-type-factory-pending';
+import { getPrefetchCacheConfiguration, prefetchResolved } from './url-type-factory-prefetch';
+import {
+    createParamRefreshFilter,
+    createTypeRefreshFilter,
+    UrlTypeRefreshFilter,
+    whenRefreshCancelled
+} from './url-type-factory-refresh';
+import {
+    UrlTypeActivationResult,
+    UrlTypeInjector,
+    UrlType,
+    UrlTypeParamUpdate,
+    UrlTypeRegistration,
+    UrlTypeResolveContext,
+    UrlTypeResolveEvent,
+    UrlTypeResolveEventType
+} from './url-type-factory-types';
+import {
+    compareReprs,
+    getObjectRepr,
+    getObjectReprs,
+    getRepr,
+    OBJ_TOKEN,
+    REPR_TOKEN,
+    RSLV_TOKEN,
+    setParamDefaultValue,
+    setPathParamValue,
+    toObservable
+} from './url-type-factory-values';
+
+
+/**
+ * A transition that is currently waiting for its URL types to resolve.
+ */
+interface PendingTransition {
+    transition: Transition;
+    controller: AbortController;
+}
+
+
+/**
+ * Framework-agnostic core of the URL type factory. It resolves the URL type parameters of the
+ * transitions of a single ui-router. Use the `UrlTypeFactoryPlugin` to set it up on a router.
+ */
+export class UrlTypeFactory {
+
+    protected _registeredTypes: UrlType<any>[] = [];
+    protected _bindableTypes: UrlType<any>[] = [];
+    protected _typeInjectors = new Map<string, UrlTypeInjector>();
+    protected _cache = new UrlTypeFactoryCache();
+    protected _pendingTransitions: PendingTransition[] = [];
+    protected _liveParams = new UrlTypeLiveParams((live) => this.updateLiveParam(live));
+    protected _paramUpdates = new Subject<UrlTypeParamUpdate>();
+    protected _events = new Subject<UrlTypeResolveEvent>();
+    protected _resolvingCount = new BehaviorSubject<number>(0);
+    protected _canonicalTransitions = new WeakSet<Transition>();
+    protected _resolvableOrigins = new WeakMap<Resolvable, Resolvable>();
+    protected _router: UIRouter = null;
+
+    constructor(protected _configuration: UrlTypeFactoryOptions = {}) {
+        /*
+         * Log the resolution lifecycle events in debug mode.
+         */
+        if (this._configuration.debug) {
+            this._events.subscribe((event) => this.log(
+                `${event.type} ${event.typeName} '${event.value}' of '${event.paramId}' (${event.duration} ms)`,
+                event.error
+            ));
+        }
+    }
+
+    get configuration() {
+        return this._configuration;
+    }
+
+    /**
+     * Emits the values of parameters that got updated after their transition received
+     * the first value.
+     * @returns {Observable<UrlTypeParamUpdate>}
+     */
+    get paramUpdates(): Observable<UrlTypeParamUpdate> {
+        return this._paramUpdates.asObservable();
+    }
+
+    /**
+     * Gets the registered types with their patterns, bindability and the states declaring
+     * parameters of them.
+     * @returns {ReadonlyArray<UrlTypeRegistration>}
+     */
+    get registeredTypes(): ReadonlyArray<UrlTypeRegistration> {
+        const states = this._router ? this._router.stateRegistry.get().map((s) => s.$$state()) : [];
+
+        return this._registeredTypes.map((type) => Object.freeze({
+            name: type.name,
+            pattern: type.match,
+            bindable: !!type.bindable,
+            states: Object.freeze(states
+                .filter((state) => Object.keys(state.params || {})
+                    .some((paramId) => state.params[paramId].type.name === type.name))
+                .map((state) => state.name)),
+        }));
+    }
+
+    /**
+     * Installs the devtools hook as global, to inspect the registered types, the resolved
+     * parameters of the current state and the cached objects in the browser devtools.
+     * @param {UIRouter} router
+     */
+    installDevtoolsHook(router: UIRouter) {
+        const hook: UrlTypeFactoryDevtools = {
+            types: () => this.registeredTypes,
+            params: () => {
+                const params = {};
+
+                for (const param of this.getTypeParamsFromStateObject(router.globals.$current, false)) {
+                    params[param.id] = router.globals.params[param.id];
+                }
+
+                return params;
+            },
+            cache: () => this._cache.snapshot(),
+        };
+
+        setDevtoolsHook(hook);
+    }
+
+    /**
+     * Logs the given message in debug mode.
+     * @param {string} message
+     * @param {any[]} args
+     */
+    protected log(message: string, ...args: any[]) {
+        if (this._configuration.debug) {
+            console.debug(`[ngx-ui-router-url-type-factory] ${message}`, ...args.filter((arg) => arg !== undefined));
+        }
+    }
+
+    /**
+     * Calls the given function of the codec of the given type and logs its input, result and
+     * timing in debug mode.
+     * @param {string} step
+     * @param {UrlType<any>} type
+     * @param {any} input
+     * @param {() => T} fn
+     * @returns {T}
+     */
+    protected trace<T>(step: string, type: UrlType<any>, input: any, fn: () => T): T {
+        if (!this._configuration.debug) {
+            return fn();
+        }
+
+        const start = Date.now(),
+            result = fn();
+
+        this.log(`${step} ${type.name} (${Date.now() - start} ms)`, input, result);
+
+        return result;
+    }
+
+    /**
+     * Emits the resolution lifecycle events of all parameters. Each `resolveStart` event is
+     * followed by exactly one `resolveSuccess`, `resolveError` or `resolveCancelled` event.
+     * @returns {Observable<UrlTypeResolveEvent>}
+     */
+    get events$(): Observable<UrlTypeResolveEvent> {
+        return this._events.asObservable();
+    }
+
+    /**
+     * Emits whether any parameter is currently being resolved.
+     * @returns {Observable<boolean>}
+     */
+    get isResolving$(): Observable<boolean> {
+        return this._resolvingCount.pipe(
+            map((count) => count > 0),
+            distinctUntilChanged()
+        );
+    }
+
+    /**
+     * Gets all parameters for the given transition and returns a promise that resolves as soon
+     * as all promise parameters of the transition are resolved. The promise resolves immediately
+     * if the transition gets cancelled while waiting for its parameters, and resolves to the
+     * redirect target if a failed parameter matches an error rule. Parameters are resolved
+     * after the parameters they depend on. Once all parameters are resolved, the
+     * `canActivate` methods of their types may abort or redirect the transition. The
+     * transition does not wait for non-blocking parameters.
+     * @param {Transition} transition
+     * @returns {Promise<any[] | TargetState>}
+     */
+    doTransition(transition: Transition) {
+         const targetState = transition.targetState().$state(),
+            targetParams = transition.params('to'),
+            targetParamObjects = this.getSortedTypeParamsFromStateObject(targetState),
+            targetParamBindableIds = this.getTypeIdsFromStateObject(targetState, true),
+            targetBlockingParamObjects: Param[] = [],
+            targetPromises = [],
+            targetPromisesById: { [paramId: string]: Promise<any> } = {},
+            targetControllersById: { [paramId: string]: AbortController } = {},
+            controller = new AbortController(),
+            cancelled = new Promise<any[]>((resolve) => {
+                controller.signal.addEventListener('abort', () => resolve([]));
+            });
+
+        this.addPendingTransition(transition, controller);
+
+        for (const targetParamObject of targetParamObjects) {
+            const targetParamId = targetParamObject.id,
+                targetParamType = this.getTypeByName(targetParamObject.type.name, false),
+                targetParamValue = targetParams[targetParamId],
+                targetParamDependencyIds = this.getParamDependencies(targetState, targetParamObject),
+                targetParamBlocking = this.isBlockingParam(targetState, targetParamObject),
+                targetParamTokens = this.getParamTokens(
+                    targetState,
+                    targetParamObject,
+                    targetParamType,
+                    targetParamBindableIds.indexOf(targetParamId) !== -1
+                ),
+                targetParamResolvables = targetParamTokens.map((token) => targetParamBlocking ?
+                    new Resolvable(token, (t) => t.params()[targetParamId], [Transition]) :
+                    new Resolvable(token, () => targetParamPending, [])
+                );
+
+            this.retainResolvables(transition, targetParamObject, targetParamResolvables);
+
+            /*
+             * Wait for the parameters this parameter depends on. Parameters that are not
+             * URL types are passed as they are.
+             */
+            const targetParamDependencies = Promise.all(
+                targetParamDependencyIds.map((id) => targetPromisesById[id] || Promise.resolve(targetParams[id]))
+            );
+
+            /*
+             * The parameter gets cancelled with the transition, with the parameters it
+             * depends on, or if it gets released before its first value arrived.
+             */
+            const targetParamController = this.createParamController([
+                controller.signal,
+                ...targetParamDependencyIds
+                    .filter((id) => !!targetControllersById[id])
+                    .map((id) => targetControllersById[id].signal),
+            ]);
+
+            targetControllersById[targetParamId] = targetParamController;
+
+            /*
+             * Wait for the promise to resolve and remove the representation token from
+             * the resolved object. Catch errors in resolving the promise and throw the
+             * redirect target of the matching error rule, or an exception if no rule
+             * matches. Results arriving after the parameter got cancelled are ignored.
+             */
+            const targetParamPromise = targetParamDependencies.then((dependencies) => {
+                const context: UrlTypeResolveContext = {
+                    transition: transition,
+                    signal: targetParamController.signal,
+                    params: {},
+                };
+
+                if (targetParamController.signal.aborted) {
+                    return;
+                }
+
+                targetParamDependencyIds.forEach((id, i) => context.params[id] = dependencies[i]);
+
+                const finish = this.startResolveEvents(
+                    transition,
+                    targetParamId,
+                    targetParamType,
+                    getRepr(targetParamValue),
+                    targetParamController.signal
+                );
+
+                return this._liveParams.subscribe(
+                    transition,
+                    targetParamId,
+                    this.getParamStateObject(targetState, targetParamId),
+                    targetParamResolvables,
+                    this.resolveParamValue(targetParamType, targetParamValue, context),
+                    targetParamBlocking,
+                    targetParamController
+                ).then((resolved) => {
+                    if (targetParamController.signal.aborted) {
+                        return;
+                    }
+
+                    finish('resolveSuccess');
+
+                    /*
+                     * Objects of non-blocking parameters got applied as soon as they arrived.
+                     */
+                    if (!targetParamBlocking) {
+                        return resolved;
+                    }
+
+                    setPathParamValue(transition.treeChanges()['to'], targetParamId, resolved);
+
+                    if (!isCanonicalValue(targetParamType, targetParamValue, resolved)) {
+                        this._canonicalTransitions.add(transition);
+                    }
+
+                    return resolved;
+                }, (error) => {
+                    if (targetParamController.signal.aborted) {
+                        return;
+                    }
+
+                    finish('resolveError', error);
+
+                    const redirect = targetParamBlocking ?
+                        this.getErrorRedirect(targetParamType, error, transition) :
+                        null;
+
+                    if (redirect) {
+                        throw redirect;
+                    }
+
+                    const resolveError = createResolveError(
+                        `for the state '${transition.to().name}'`,
+                        {
+                            paramId: targetParamId,
+                            typeName: targetParamType.name,
+                            value: getRepr(targetParamValue),
+                            stateName: transition.to().name,
+                            cause: error,
+                        },
+                        this.getResolvePolicy(targetParamType).timeout
+                    );
+
+                    if (!targetParamBlocking) {
+                        this.bindParamValue(transition, targetParamId, targetParamResolvables,
+                            new UrlTypePendingValue('rejected', targetParamPending.promise, undefined, resolveError));
+                    }
+
+                    throw resolveError;
+                });
+            });
+
+            const targetParamPending = new UrlTypePendingValue<any>('pending', targetParamPromise);
+
+            /*
+             * Only blocking parameters delay the transition. Failures of non-blocking
+             * parameters are passed to their bound components.
+             */
+            if (!targetParamBlocking) {
+                targetParamPromise.catch(() => undefined);
+            } else {
+                targetPromises.push(targetParamPromise);
+                targetBlockingParamObjects.push(targetParamObject);
+            }
+
+            targetPromisesById[targetParamId] = targetParamPromise;
+
+            /*
+             * Add the value to the resolvables of this transition, by the parameter ID and the
+             * input names of the state if we are working on a bindable type, and by the
+             * injection token of the type.
+             */
+            for (const targetParamResolvable of targetParamResolvables) {
+                transition.addResolvable(targetParamResolvable);
+            }
+
+            /*
+             * Views of retained states are kept if dynamic parameters change. They get the
+             * resolved object as soon as the transition succeeded.
+             */
+            if (targetParamBlocking && this.isDynamicParamChange(transition, targetParamObject)) {
+                transition.onSuccess({}, () => this.bindParamValue(
+                    transition,
+                    targetParamId,
+                    targetParamResolvables,
+                    transition.params()[targetParamId]
+                ));
+            }
+        }
+
+        /*
+         * Redirect targets of error rules are thrown to reject as soon as the first parameter
+         * fails, and returned to ui-router as the result of the hook.
+         */
+        const resolved = Promise.all(targetPromises)
+            .then((values) => {
+                if (controller.signal.aborted) {
+                    return values;
+                }
+
+                return this.canActivate(transition, targetBlockingParamObjects, values);
+            })
+            .catch((error) => {
+                if (error instanceof TargetState) {
+                    return error;
+                }
+
+                throw error;
+            });
+
+        return <Promise<any>>Promise.race([resolved, cancelled]);
+    }
+
+    /**
+     * Creates the abort controller of a parameter, which aborts as soon as one of the
+     * given signals aborts.
+     * @param {AbortSignal[]} signals
+     * @returns {AbortController}
+     */
+    protected createParamController(signals: AbortSignal[]): AbortController {
+        const controller = new AbortController();
+
+        for (const signal of signals) {
+            if (signal.aborted) {
+                controller.abort();
+            } else {
+                signal.addEventListener('abort', () => controller.abort());
+            }
+        }
+
+        return controller;
+    }
+
+    /**
+     * Determines if the given URL type parameter is dynamic and got changed by the given
+     * transition, which keeps the views of its state.
+     * @param {Transition} transition
+     * @param {Param} param
+     * @returns {boolean}
+     */
+    protected isDynamicParamChange(transition: Transition, param: Param): boolean {
+        return param.dynamic &&
+            this.isRetainedParam(transition, param) &&
+            !param.type.equals(transition.params('from')[param.id], transition.params('to')[param.id]);
+    }
+
+    /**
+     * Determines if the state of the given URL type parameter is retained by the given transition.
+     * @param {Transition} transition
+     * @param {Param} param
+     * @returns {boolean}
+     */
+    protected isRetainedParam(transition: Transition, param: Param): boolean {
+        return transition.treeChanges().retained.some((node) => node.paramSchema.indexOf(param) !== -1);
+    }
+
+    /**
+     * Links the given new resolvables of the given URL type parameter to the resolvables of
+     * the previous transition if the state of the parameter is retained. The views of the
+     * state stay bound to the resolvables of the transition that entered it.
+     * @param {Transition} transition
+     * @param {Param} param
+     * @param {Resolvable[]} resolvables
+     */
+    protected retainResolvables(transition: Transition, param: Param, resolvables: Resolvable[]) {
+        if (!this.isRetainedParam(transition, param)) {
+            return;
+        }
+
+        const context = new ResolveContext(transition.treeChanges().from);
+
+        for (const resolvable of resolvables) {
+            const previous = context.getResolvable(resolvable.token);
+
+            if (previous) {
+                this._resolvableOrigins.set(resolvable, this.getResolvableOrigin(previous));
+            }
+        }
+    }
+
+    /**
+     * Gets the resolvable of the transition that entered the state of the URL type parameter
+     * the given resolvable got created for. Views compare the origins of resolvables to find
+     * the updates of their parameters.
+     * @param {Resolvable} resolvable
+     * @returns {Resolvable}
+     */
+    getResolvableOrigin(resolvable: Resolvable): Resolvable {
+        return this._resolvableOrigins.get(resolvable) || resolvable;
+    }
+
+    /**
+     * Emits the `resolveStart` event of the given parameter and returns a function emitting
+     * the final event. The parameter is finished as cancelled if the signal aborts first.
+     * @param {Transition} transition
+     * @param {string} paramId
+     * @param {UrlType<any>} type
+     * @param {any} repr
+     * @param {AbortSignal} signal
+     * @returns {(eventType: UrlTypeResolveEventType, error?: any) => void}
+     */
+    protected startResolveEvents(transition: Transition, paramId: string, type: UrlType<any>, repr: any,
+                                 signal: AbortSignal): (eventType: UrlTypeResolveEventType, error?: any) => void {
+        const start = Date.now();
+        let finished = false;
+
+        const emit = (eventType: UrlTypeResolveEventType, error?: any) => {
+            const event: UrlTypeResolveEvent = {
+                type: eventType,
+                transition: transition,
+                paramId: paramId,
+                typeName: type.name,
+                value: repr,
+                duration: eventType === 'resolveStart' ? 0 : Date.now() - start,
+            };
+
+            if (eventType === 'resolveError') {
+                event.error = error;
+            }
+
+            this._events.next(event);
+        };
+
+        const finish = (eventType: UrlTypeResolveEventType, error?: any) => {
+            if (finished) {
+                return;
+            }
+
+            finished = true;
+            this._resolvingCount.next(this._resolvingCount.value - 1);
+            emit(eventType, error);
+        };
+
+        this._resolvingCount.next(this._resolvingCount.value + 1);
+        emit('resolveStart');
+
+        signal.addEventListener('abort', () => finish('resolveCancelled'));
+
+        return finish;
+    }
+
+    /**
+     * Calls the `canActivate` methods of the types of the given resolved parameters. Resolves
+     * to the result of the first parameter that does not allow the transition, or to the
+     * resolved values if all of them do.
+     * @param {Transition} transition
+     * @param {Param[]} paramObjects
+     * @param {any[]} values
+     * @returns {Promise<any[] | boolean | TargetState>}
+     */
+    protected canActivate(transition: Transition, paramObjects: Param[],
+                          values: any[]): Promise<any[] | boolean | TargetState> {
+        const params: { [paramId: string]: any } = {};
+
+        paramObjects.forEach((param, i) => params[param.id] = values[i]);
+
+        const results = paramObjects.map((param, i) => {
+            const type = this.getTypeByName(param.type.name, false);
+
+            if (!type.canActivate || values[i] === null || values[i] === undefined) {
+                return Promise.resolve<UrlTypeActivationResult>(true);
+            }
+
+            return firstValueFrom(toObservable<UrlTypeActivationResult>(type.canActivate(values[i], {
+                transition: transition,
+                paramId: param.id,
+                injector: this._typeInjectors.get(type.name),
+                params: params,
+            })));
+        });
+
+        return Promise.all(results).then((activations) => {
+            for (const activation of activations) {
+                if (activation instanceof TargetState || activation === false) {
+                    return activation;
+                }
+            }
+
+            return values;
+        });
+    }
+
+    /**
+     * Gets the redirect target of the first error rule of the given type or the module
+     * configuration that applies to the given error. Returns `null` if no rule applies.
+     * @param {UrlType<any>} type
+     * @param {any} error
+     * @param {Transition} transition
+     * @returns {TargetState}
+     */
+    protected getErrorRedirect(type: UrlType<any>, error: any, transition: Transition): TargetState {
+        const rule = findErrorRule(type.errorPolicy, error, transition) ||
+            findErrorRule(this._configuration.errorPolicy, error, transition);
+
+        return rule ? createErrorRedirect(rule, error, transition) : null;
+    }
+
+    /**
+     * Cancels the resolving of all pending transitions that got superseded, aborted or
+     * redirected by now.
+     */
+    cancelStaleTransitions() {
+        for (const pending of this._pendingTransitions.slice()) {
+            if (!pending.transition.isActive() || pending.transition._aborted) {
+                this.removePendingTransition(pending.transition);
+                pending.controller.abort();
+            }
+        }
+    }
+
+    /**
+     * Starts resolving the URL type parameters of the given target state ahead of a transition,
+     * e.g. as soon as a link gets hovered. The transition reuses the pending or resolved objects.
+     * Objects of types without a cache configuration are kept for the prefetch TTL of the
+     * module configuration and used by a single transition. Parameters that depend on other
+     * parameters are not prefetched. The returned promise resolves when all objects are
+     * resolved, and never rejects.
+     * @param {TargetState} targetState
+     * @returns {Promise<void>}
+     */
+    prefetch(targetState: TargetState): Promise<void> {
+        const prefetched: Promise<any>[] = [];
+
+        if (!targetState.valid()) {
+            return Promise.resolve();
+        }
+
+        const state = targetState.$state(),
+            params = targetState.params(),
+            context: UrlTypeResolveContext = {
+                transition: null,
+                signal: new AbortController().signal,
+                params: {},
+                prefetch: true,
+            };
+
+        for (const param of this.getTypeParamsFromStateObject(state, false)) {
+            const type = this.getTypeByName(param.type.name, false);
+            let value: any;
+
+            if (this.getParamDependencies(state, param).length) {
+                continue;
+            }
+
+            try {
+                value = param.value(params[param.id]);
+            } catch (error) {
+                /*
+                 * Values that do not match the type can not be prefetched.
+                 */
+                continue;
+            }
+
+            prefetched.push(prefetchResolved(this.resolveParamValue(type, value, context)));
+        }
+
+        return Promise.all(prefetched).then(() => undefined, () => undefined);
+    }
+
+    /**
+     * Replaces the URL of the given successful transition by its canonical URL, if a value
+     * matched in the URL differs from the representation of its resolved object and the type
+     * opted in to canonical URLs. The transition that follows the URL change gets ignored, as
+     * its parameters equal the resolved objects.
+     * @param {Transition} transition
+     */
+    replaceCanonicalUrl(transition: Transition) {
+        if (!this._canonicalTransitions.has(transition)) {
+            return;
+        }
+
+        this._canonicalTransitions.delete(transition);
+        replaceByCanonicalUrl(transition);
+    }
+
+    /**
+     * Stops receiving values for live parameters whose state got exited or whose value
+     * got replaced by the given successful transition.
+     * @param {Transition} transition
+     */
+    releaseLiveParams(transition: Transition) {
+        this._liveParams.releaseReplaced(transition);
+    }
+
+    /**
+     * Applies the current value of the given live parameter to its transition, the router
+     * globals and the bound components. Components bound to non-blocking parameters get the
+     * value as resolved `UrlTypePendingValue`.
+     * @param {UrlTypeLiveParam} live
+     */
+    protected updateLiveParam(live: UrlTypeLiveParam) {
+        this.setParamValue(live.transition, live.paramId, live.value);
+        this.bindParamValue(live.transition, live.paramId, live.resolvables, live.blocking ?
+            live.value :
+            new UrlTypePendingValue('resolved', Promise.resolve(live.value), live.value));
+    }
+
+    /**
+     * Applies the given value of the given parameter to the given transition, and to the
+     * router globals if the transition already succeeded.
+     * @param {Transition} transition
+     * @param {string} paramId
+     * @param {any} value
+     */
+    protected setParamValue(transition: Transition, paramId: string, value: any) {
+        const router = transition.router,
+            current = router.globals.successfulTransitions.peekTail();
+
+        setPathParamValue(transition.treeChanges()['to'], paramId, value);
+
+        if (transition.success) {
+            setPathParamValue(current.treeChanges()['to'], paramId, value);
+            router.globals.params[paramId] = value;
+        }
+    }
+
+    /**
+     * Applies the given bound value of the given parameter to its resolvables and emits
+     * it as parameter update to the bound components.
+     * @param {Transition} transition
+     * @param {string} paramId
+     * @param {Resolvable[]} resolvables
+     * @param {any} bound
+     */
+    protected bindParamValue(transition: Transition, paramId: string, resolvables: Resolvable[], bound: any) {
+        for (const resolvable of resolvables) {
+            if (resolvable.resolved) {
+                resolvable.data = bound;
+            } else {
+                resolvable.resolveFn = () => bound;
+                resolvable.deps = [];
+            }
+        }
+
+        this._paramUpdates.next({
+            transition: transition,
+            paramId: paramId,
+            value: bound,
+            resolvables: resolvables,
+        });
+    }
+
+    /**
+     * Adds the given transition to the list of pending transitions until it is finished.
+     * @param {Transition} transition
+     * @param {AbortController} controller
+     */
+    protected addPendingTransition(transition: Transition, controller: AbortController) {
+        const remove = () => this.removePendingTransition(transition);
+
+        this._pendingTransitions.push({
+            transition: transition,
+            controller: controller,
+        });
+
+        transition.promise.then(remove, remove);
+    }
+
+    /**
+     * Removes the given transition from the list of pending transitions.
+     * @param {Transition} transition
+     */
+    protected removePendingTransition(transition: Transition) {
+        this._pendingTransitions = this._pendingTransitions.filter((p) => p.transition !== transition);
+    }
+
+    /**
+     * Resolves the given represented value of the given type. The result is taken from and
+     * stored in the resolve cache if there is a cache configuration for the type. Pending
+     * results are removed from the cache if the resolve gets cancelled. Objects transferred
+     * from the server are used instead of calling `resolve`, and objects resolved on the
+     * server are stored in the transfer state. Objects of parameters depending on other
+     * parameters are neither cached nor transferred.
+     * @param {UrlType<T>} type
+     * @param {any} repr
+     * @param {UrlTypeInjector} injector
+     * @param {UrlTypeResolveContext} context
+     * @returns {Observable<T>}
+     */
+    resolveValue<T>(type: UrlType<T>, repr: any, injector: UrlTypeInjector, context: UrlTypeResolveContext): Observable<T> {
+        const resolved = () => applyResolvePolicy(
+            () => toObservable<T>(type.resolve(repr, injector, context)),
+            this.getResolvePolicy(type)
+        );
+
+        if (!this.isCacheableContext(context)) {
+            return resolved();
+        }
+
+        return this.getCachedValue(type, repr, context) || this.cacheValue(
+            type,
+            repr,
+            this.getTransferredValue(type, repr) || this.transferValue(type, repr, resolved()),
+            context
+        );
+    }
+
+    /**
+     * Determines if objects resolved in the given context may be cached and transferred by
+     * their represented value. Objects of parameters depending on other parameters may
+     * differ for the same represented value, e.g. the project `5` of different organisations.
+     * @param {UrlTypeResolveContext} context
+     * @returns {boolean}
+     */
+    protected isCacheableContext(context: UrlTypeResolveContext): boolean {
+        return !context.params || Object.keys(context.params).length === 0;
+    }
+
+    /**
+     * Gets the object of the given type and represented value that got transferred from the
+     * server, or `null` if there is no object. There is no transfer state by default, framework
+     * adapters rendering on the server override this method.
+     * @param {UrlType<T>} type
+     * @param {any} repr
+     * @returns {Observable<T>}
+     */
+    protected getTransferredValue<T>(type: UrlType<T>, repr: any): Observable<T> {
+        return null;
+    }
+
+    /**
+     * Stores the first object of the given resolved observable for the transfer to the client,
+     * and returns the observable to use instead of the given one. Returns the given observable
+     * by default.
+     * @param {UrlType<T>} type
+     * @param {any} repr
+     * @param {Observable<T>} resolved
+     * @returns {Observable<T>}
+     */
+    protected transferValue<T>(type: UrlType<T>, repr: any, resolved: Observable<T>): Observable<T> {
+        return resolved;
+    }
+
+    /**
+     * Gets the timeout and retry policy of the given type, including the options of the
+     * module configuration.
+     * @param {UrlType<any>} type
+     * @returns {UrlTypeResolvePolicy}
+     */
+    getResolvePolicy(type: UrlType<any>): UrlTypeResolvePolicy {
+        return mergeResolvePolicies(this._configuration.resolvePolicy, type.resolvePolicy);
+    }
+
+    /**
+     * Resolves the given decoded parameter value of the given type. The elements of array
+     * parameters are resolved at once, missing values resolve to `null`.
+     * @param {UrlType<any>} type
+     * @param {any} value
+     * @param {UrlTypeResolveContext} context
+     * @returns {Observable<any>}
+     */
+    protected resolveParamValue(type: UrlType<any>, value: any, context: UrlTypeResolveContext): Observable<any> {
+        /*
+         * Optional parameters without a value are bound as `null`.
+         */
+        if (value === null || value === undefined) {
+            return of(null);
+        }
+
+        if (!Array.isArray(value)) {
+            return value[RSLV_TOKEN](context);
+        }
+
+        /*
+         * Elements that already are objects are kept, all others are resolved.
+         */
+        const reprs = value
+            .filter((v) => !v.hasOwnProperty(OBJ_TOKEN))
+            .map((v) => v[REPR_TOKEN]);
+
+        return this.resolveValues(type, reprs, this._typeInjectors.get(type.name), context).pipe(
+            map((resolved) => value.map((v) =>
+                v.hasOwnProperty(OBJ_TOKEN) ? v[OBJ_TOKEN] : resolved[reprs.indexOf(v[REPR_TOKEN])]
+            ))
+        );
+    }
+
+    /**
+     * Resolves the given represented values of the given type in a single call of
+     * `UrlType.resolveMany`, or by resolving each value if the type does not implement it.
+     * Cached objects and objects transferred from the server are not requested again, unless
+     * the parameter depends on other parameters.
+     * @param {UrlType<T>} type
+     * @param {any[]} reprs
+     * @param {UrlTypeInjector} injector
+     * @param {UrlTypeResolveContext} context
+     * @returns {Observable<T[]>}
+     */
+    resolveValues<T>(type: UrlType<T>, reprs: any[], injector: UrlTypeInjector, context: UrlTypeResolveContext): Observable<T[]> {
+        const missingReprs = [],
+            cacheable = this.isCacheableContext(context);
+        let cachedValues: Observable<T>[],
+            missingValues: Observable<T>[],
+            resolvedMany: Observable<T[]>;
+
+        if (!reprs.length) {
+            return of([]);
+        }
+
+        if (!type.resolveMany) {
+            return combineLatest(reprs.map((repr) => this.resolveValue(type, repr, injector, context)));
+        }
+
+        cachedValues = reprs.map((repr) => cacheable ?
+            this.getCachedValue(type, repr, context) || this.getTransferredValue(type, repr) :
+            null
+        );
+
+        reprs.forEach((repr, i) => {
+            if (!cachedValues[i] && missingReprs.indexOf(repr) === -1) {
+                missingReprs.push(repr);
+            }
+        });
+
+        /*
+         * Request all values missing in the cache at once and cache each of the resulting
+         * objects on its own.
+         */
+        if (missingReprs.length) {
+            resolvedMany = applyResolvePolicy(
+                () => toObservable<T[]>(type.resolveMany(missingReprs, injector, context)),
+                this.getResolvePolicy(type)
+            ).pipe(
+                shareReplay({bufferSize: 1, refCount: true})
+            );
+
+            missingValues = missingReprs.map((repr, i) => {
+                const missingValue = resolvedMany.pipe(map((values) => values[i]));
+
+                return cacheable ?
+                    this.cacheValue(type, repr, this.transferValue(type, repr, missingValue), context) :
+                    missingValue;
+            });
+        }
+
+        return combineLatest(reprs.map((repr, i) =>
+            cachedValues[i] || missingValues[missingReprs.indexOf(repr)]
+        ));
+    }
+
+    /**
+     * Gets the cached object of the given type and represented value. Returns `null` if
+     * there is no cached object. Prefetched objects of types without a cache configuration
+     * are removed from the cache as soon as a transition takes them.
+     * @param {UrlType<T>} type
+     * @param {any} repr
+     * @param {UrlTypeResolveContext} context
+     * @returns {Observable<T>}
+     */
+    protected getCachedValue<T>(type: UrlType<T>, repr: any, context: UrlTypeResolveContext): Observable<T> {
+        const cacheConfiguration = (this._configuration.cache || {})[type.name],
+            cached = this._cache.get(type.name, repr);
+
+        if (cached && !cacheConfiguration && !context.prefetch) {
+            this._cache.invalidate(type.name, repr);
+        }
+
+        return cached;
+    }
+
+    /**
+     * Gets the cache configuration of the given type. Objects that get prefetched are cached
+     * for the prefetch TTL if the type has no cache configuration. Returns `null` if the
+     * object is not cached.
+     * @param {UrlType<any>} type
+     * @param {UrlTypeResolveContext} context
+     * @returns {UrlTypeCacheConfiguration}
+     */
+    protected getCacheConfiguration(type: UrlType<any>, context: UrlTypeResolveContext): UrlTypeCacheConfiguration {
+        const cacheConfiguration = (this._configuration.cache || {})[type.name];
+
+        if (cacheConfiguration || !context.prefetch) {
+            return cacheConfiguration || null;
+        }
+
+        return getPrefetchCacheConfiguration(this._configuration.prefetch);
+    }
+
+    /**
+     * Stores the given resolved object in the resolve cache if there is a cache configuration
+     * for the type or the object gets prefetched, and returns the observable to use instead of the given one. Pending
+     * objects are removed from the cache if the resolve gets cancelled.
+     * @param {UrlType<T>} type
+     * @param {any} repr
+     * @param {Observable<T>} resolved
+     * @param {UrlTypeResolveContext} context
+     * @returns {Observable<T>}
+     */
+    protected cacheValue<T>(type: UrlType<T>, repr: any, resolved: Observable<T>,
+                            context: UrlTypeResolveContext): Observable<T> {
+        const cacheConfiguration = this.getCacheConfiguration(type, context);
+
+        if (!cacheConfiguration) {
+            return resolved;
+        }
+
+        return this._cache.store(type.name, repr, resolved, cacheConfiguration, context.signal);
+    }
+
+    /**
+     * Removes the cached object of the given type and represented value from the resolve
+     * cache. Removes all cached objects of the type if no value is given. The value may
+     * either be the represented value or the object itself.
+     * @param {string} typeName
+     * @param {any} repr
+     */
+    invalidate(typeName: string, repr?: any) {
+        const type = this.getTypeByName(typeName, false);
+
+        if (type && repr && typeof repr === 'object') {
+            repr = type.represent(repr);
+        }
+
+        this._cache.invalidate(typeName, repr);
+    }
+
+    /**
+     * Removes all cached objects from the resolve cache.
+     */
+    clear() {
+        this._cache.clear();
+    }
+
+    /**
+     * Resolves the objects of the URL type parameters of the active state again, bypassing
+     * the resolve cache, and applies them to the router globals and the bound components
+     * without reloading the state. Refreshes all URL type parameters if no parameter ID is
+     * given. Returns a promise resolving to the new objects by parameter ID, which rejects
+     * if resolving fails or a transition starts in the meantime.
+     * @param {string} paramId
+     * @returns {Promise<{[paramId: string]: any}>}
+     */
+    refresh(paramId?: string): Promise<{ [paramId: string]: any }> {
+        return this.refreshParams(createParamRefreshFilter(paramId));
+    }
+
+    /**
+     * Resolves the objects of the parameters of the given type of the active state again,
+     * like `refresh`. Only refreshes the parameters of the given represented value if given,
+     * which may either be the represented value or the object itself.
+     * @param {string} typeName
+     * @param {any} repr
+     * @returns {Promise<{[paramId: string]: any}>}
+     */
+    refreshType(typeName: string, repr?: any): Promise<{ [paramId: string]: any }> {
+        const type = this.getTypeByName(typeName, false);
+
+        if (!type) {
+            return Promise.resolve({});
+        }
+
+        if (repr && typeof repr === 'object') {
+            repr = type.represent(repr);
+        }
+
+        return this.refreshParams(createTypeRefreshFilter(type, repr));
+    }
+
+    /**
+     * Resolves the objects of the URL type parameters of the active state matching the given
+     * filter again. Parameters are resolved after the parameters they depend on.
+     * @param {UrlTypeRefreshFilter} filter
+     * @returns {Promise<{[paramId: string]: any}>}
+     */
+    protected refreshParams(filter: UrlTypeRefreshFilter): Promise<{ [paramId: string]: any }> {
+        const transition = this._router ? this._router.globals.successfulTransitions.peekTail() : null;
+
+        if (!transition) {
+            return Promise.resolve({});
+        }
+
+        const state = transition.$to(),
+            params = transition.params(),
+            bindableIds = this.getTypeIdsFromStateObject(state, true),
+            refreshed: { [paramId: string]: any } = {},
+            promisesById: { [paramId: string]: Promise<any> } = {},
+            controller = new AbortController(),
+            deregister = this._router.transitionService.onStart({}, () => controller.abort());
+
+        const promises = this.getSortedTypeParamsFromStateObject(state)
+            .filter((param) => filter(param, params[param.id]))
+            .map((param) => {
+                const dependencyIds = this.getParamDependencies(state, param),
+                    dependencies = Promise.all(
+                        dependencyIds.map((id) => promisesById[id] || Promise.resolve(params[id]))
+                    );
+
+                promisesById[param.id] = dependencies.then((values) => {
+                    const context: UrlTypeResolveContext = {
+                        transition: transition,
+                        signal: controller.signal,
+                        params: {},
+                    };
+
+                    dependencyIds.forEach((id, i) => context.params[id] = values[i]);
+
+                    return this.refreshParam(
+                        transition,
+                        param,
+                        bindableIds.indexOf(param.id) !== -1,
+                        context,
+                        controller
+                    );
+                });
+
+                return promisesById[param.id].then((value) => refreshed[param.id] = value);
+            });
+
+        return Promise.all(promises).then(
+            () => {
+                deregister();
+
+                return refreshed;
+            },
+            (error) => {
+                deregister();
+                controller.abort();
+
+                throw error;
+            }
+        );
+    }
+
+    /**
+     * Resolves the object of the given URL type parameter of the given successful transition
+     * again and applies it like the later values of live parameters. The previous value
+     * keeps receiving values until the new value arrives.
+     * @param {Transition} transition
+     * @param {Param} param
+     * @param {boolean} bindable
+     * @param {UrlTypeResolveContext} context
+     * @param {AbortController} controller
+     * @returns {Promise<any>}
+     */
+    protected refreshParam(transition: Transition, param: Param, bindable: boolean,
+                           context: UrlTypeResolveContext, controller: AbortController): Promise<any> {
+        const state = transition.$to(),
+            type = this.getTypeByName(param.type.name, false),
+            value = transition.params()[param.id],
+            blocking = this.isBlockingParam(state, param),
+            paramState = this.getParamStateObject(state, param.id),
+            resolveContext = new ResolveContext(transition.treeChanges().to),
+            resolvables = this.getParamTokens(state, param, type, bindable)
+                .map((token) => resolveContext.getResolvable(token))
+                .filter((resolvable) => !!resolvable),
+            reprs = getObjectReprs(type, value),
+            repr = Array.isArray(value) ? reprs : reprs[0];
+
+        /*
+         * Missing values of optional parameters stay `null`.
+         */
+        if (!reprs.length) {
+            return Promise.resolve(value);
+        }
+
+        for (const invalidated of reprs) {
+            this._cache.invalidate(type.name, invalidated);
+        }
+
+        const previous = this._liveParams.find(param.id, paramState),
+            injector = this._typeInjectors.get(type.name),
+            finish = this.startResolveEvents(transition, param.id, type, repr, context.signal),
+            resolved = Array.isArray(value) ?
+                this.resolveValues(type, reprs, injector, context) :
+                this.resolveValue(type, repr, injector, context);
+
+        /*
+         * Reject as soon as a transition starts, results arriving later on are ignored.
+         */
+        const cancelled = whenRefreshCancelled(param.id, context.signal);
+
+        const refreshed = this._liveParams.subscribe(
+            transition,
+            param.id,
+            paramState,
+            resolvables,
+            resolved,
+            blocking,
+            controller
+        ).then(
+            (obj) => {
+                if (context.signal.aborted) {
+                    return;
+                }
+
+                finish('resolveSuccess');
+
+                for (const live of previous) {
+                    this._liveParams.release(live);
+                }
+
+                /*
+                 * Objects of non-blocking parameters got applied as soon as they arrived.
+                 */
+                if (blocking) {
+                    this.setParamValue(transition, param.id, obj);
+                    this.bindParamValue(transition, param.id, resolvables, obj);
+                }
+
+                return obj;
+            },
+            (error) => {
+                if (context.signal.aborted) {
+                    return;
+                }
+
+                finish('resolveError', error);
+
+                throw createResolveError(
+                    `refreshing the state '${state.name}'`,
+                    {
+                        paramId: param.id,
+                        typeName: type.name,
+                        value: repr,
+                        stateName: state.name,
+                        cause: error,
+                    },
+                    this.getResolvePolicy(type).timeout
+                );
+            }
+        );
+
+        return Promise.race([refreshed, cancelled]);
+    }
+
+    /**
+     * Gets a registered type by its name. Returns `null` if there is no type with the given name.
+     * @param {string} name
+     * @param {boolean} bindableOnly
+     * @returns {UrlType<any>}
+     */
+    getTypeByName(name: string, bindableOnly: boolean): UrlType<any> {
+        const types = bindableOnly ? this._bindableTypes : this._registeredTypes;
+
+        for (const type of types) {
+            if (type.name === name) {
+                return type;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Gets the ui-router types from the state object that are types created by ngx-ui-router-url-type.
+     * @param {StateObject} state
+     * @param {boolean} bindableOnly
+     * @returns {Param[]}
+     */
+    getTypeParamsFromStateObject(state: StateObject, bindableOnly: boolean): Param[] {
+        const foundParams: Param[] = [];
+
+        for (const pathState of state.path) {
+            const params = pathState.params || {};
+
+            for (const paramName of Object.keys(params)) {
+                const param = params[paramName];
+
+                if (this.getTypeByName(param.type.name, bindableOnly)) {
+                    foundParams.push(param);
+                }
+            }
+        }
+
+
+        return foundParams;
+    }
+
+    /**
+     * Prepares the URL type parameters declared by the given state. Validates the parameter
+     * dependencies and decodes default values, which ui-router expects to be decoded already.
+     * @param {StateObject} state
+     */
+    configureStateObject(state: StateObject) {
+        const params = state.params || {};
+
+        this.getSortedTypeParamsFromStateObject(state);
+
+        for (const paramId of Object.keys(params)) {
+            const param = params[paramId],
+                config = param.config,
+                defaultValue = config && config.value;
+
+            if (!this.getTypeByName(param.type.name, false) ||
+                defaultValue === null || defaultValue === undefined ||
+                typeof defaultValue === 'function' || param.type.is(defaultValue)) {
+                continue;
+            }
+
+            /*
+             * Replace the static default value by its decoded value. Default values of URL
+             * types get resolved like any other value of the parameter.
+             */
+            if (!setParamDefaultValue(param, param.type.decode(defaultValue))) {
+                throw new UrlTypeFactoryRegistrationError(
+                    `The default value of the URL parameter '${paramId}' of the state '${state.name}'
+                    could not be decoded, the installed ui-router version is not supported.`,
+                    {
+                        typeName: param.type.name,
+                        stateName: state.name,
+                        paramId: paramId,
+                    }
+                );
+            }
+        }
+    }
+
+    /**
+     * Gets the state of the path of the given state that declares the given parameter.
+     * @param {StateObject} state
+     * @param {string} paramId
+     * @returns {StateObject}
+     */
+    getParamStateObject(state: StateObject, paramId: string): StateObject {
+        for (const pathState of state.path) {
+            if ((pathState.params || {}).hasOwnProperty(paramId)) {
+                return pathState;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Gets the names of the inputs the given URL type parameter gets bound to next to its ID.
+     * These are listed for the parameter in `data.paramBindings` of the given state, either as
+     * a single name or a list of names.
+     * @param {StateObject} state
+     * @param {Param} param
+     * @returns {string[]}
+     */
+    getParamBindings(state: StateObject, param: Param): string[] {
+        const bindings = state.data && state.data.paramBindings && state.data.paramBindings[param.id];
+
+        if (!bindings) {
+            return [];
+        }
+
+        return Array.isArray(bindings) ? bindings.slice() : [bindings];
+    }
+
+    /**
+     * Determines if transitions wait for the object of the given URL type parameter. States
+     * may list the parameter in `data.paramBlocking`, otherwise `blocking` of the parameter
+     * type applies.
+     * @param {StateObject} state
+     * @param {Param} param
+     * @returns {boolean}
+     */
+    isBlockingParam(state: StateObject, param: Param): boolean {
+        const type = this.getTypeByName(param.type.name, false),
+            blocking = state.data && state.data.paramBlocking && state.data.paramBlocking[param.id];
+
+        if (typeof blocking === 'boolean') {
+            return blocking;
+        }
+
+        return type.blocking !== false;
+    }
+
+    /**
+     * Gets the tokens the resolved object of the given URL type parameter is provided by to the
+     * views of the transition. Objects of bindable types are provided by the parameter ID and
+     * its bindings.
+     * @param {StateObject} state
+     * @param {Param} param
+     * @param {UrlType<any>} type
+     * @param {boolean} bindable
+     * @returns {any[]}
+     */
+    protected getParamTokens(state: StateObject, param: Param, type: UrlType<any>, bindable: boolean): any[] {
+        return bindable ? [param.id, ...this.getParamBindings(state, param)] : [];
+    }
+
+    /**
+     * Gets the IDs of the parameters the given URL type parameter depends on. These are the
+     * parameters listed for the parameter in `data.paramDependencies` of the given state, and
+     * the parameters of the given state whose types are listed by `dependsOn` of the parameter type.
+     * @param {StateObject} state
+     * @param {Param} param
+     * @returns {string[]}
+     */
+    getParamDependencies(state: StateObject, param: Param): string[] {
+        const type = this.getTypeByName(param.type.name, false),
+            declaredIds = state.data && state.data.paramDependencies && state.data.paramDependencies[param.id],
+            dependencyIds: string[] = (declaredIds || []).slice();
+
+        for (const typeParam of this.getTypeParamsFromStateObject(state, false)) {
+            if (typeParam !== param &&
+                type.dependsOn && type.dependsOn.indexOf(typeParam.type.name) !== -1 &&
+                dependencyIds.indexOf(typeParam.id) === -1) {
+                dependencyIds.push(typeParam.id);
+            }
+        }
+
+        return dependencyIds;
+    }
+
+    /**
+     * Gets the URL type parameters of the given state, sorted so that every parameter comes
+     * after the parameters it depends on. Throws an `UrlTypeFactoryRegistrationError` if the
+     * dependencies are cyclic or refer to unknown parameters.
+     * @param {StateObject} state
+     * @returns {Param[]}
+     */
+    getSortedTypeParamsFromStateObject(state: StateObject): Param[] {
+        const params = this.getTypeParamsFromStateObject(state, false),
+            paramIds = state.parameters().map((p) => p.id),
+            sorted: Param[] = [],
+            visiting: Param[] = [];
+
+        const visit = (param: Param) => {
+            if (sorted.indexOf(param) !== -1) {
+                return;
+            }
+
+            if (visiting.indexOf(param) !== -1) {
+                const cycle = visiting.slice(visiting.indexOf(param)).concat(param).map((p) => p.id);
+
+                throw new UrlTypeFactoryRegistrationError(
+                    `The URL parameters of the state '${state.name}' have
+                    cyclic dependencies: ${cycle.join(' -> ')}.`,
+                    {
+                        typeName: param.type.name,
+                        stateName: state.name,
+                        paramId: param.id,
+                    }
+                );
+            }
+
+            visiting.push(param);
+
+            for (const dependencyId of this.getParamDependencies(state, param)) {
+                if (paramIds.indexOf(dependencyId) === -1) {
+                    throw new UrlTypeFactoryRegistrationError(
+                        `The URL parameter '${param.id}' of the state '${state.name}'
+                        depends on the unknown parameter '${dependencyId}'.`,
+                        {
+                            typeName: param.type.name,
+                            stateName: state.name,
+                            paramId: param.id,
+                        }
+                    );
+                }
+
+                for (const dependency of params) {
+                    if (dependency.id === dependencyId) {
+                        visit(dependency);
+                    }
+                }
+            }
+
+            visiting.pop();
+            sorted.push(param);
+        };
+
+        params.forEach(visit);
+
+        return sorted;
+    }
+
+    /**
+     * Gets the IDs of the ngx-ui-router-url-type types for the given state.
+     * @param {StateObject} state
+     * @param {boolean} bindableOnly
+     * @returns {string[]}
+     */
+    getTypeIdsFromStateObject(state: StateObject, bindableOnly: boolean): string[] {
+        return this.getTypeParamsFromStateObject(state, bindableOnly)
+            .map((p) => p.id);
+    }
+
+    /**
+     * Registers the given type implementation on the ui-router.
+     * @param {UrlType<T>} type
+     * @param {UIRouter} router
+     * @param {UrlTypeInjector} injector
+     */
+    registerType<T>(type: UrlType<T>, router: UIRouter, injector: UrlTypeInjector) {
+        /*
+         * Assert there is no type with the name of the given type registered.
+         */
+        for (const registeredType of this._registeredTypes) {
+            if (type.name === registeredType.name) {
+                throw new UrlTypeFactoryRegistrationError(
+                    `There is already a type with the
+                    name '${registeredType.name}' registered.`,
+                    {
+                        typeName: registeredType.name,
+                    }
+                );
+            }
+        }
+
+        /*
+         * Push the type to the list of already registered types.
+         */
+        this._registeredTypes.push(type);
+        this._typeInjectors.set(type.name, injector);
+        this._router = router;
+
+        if (type.bindable) {
+            this._bindableTypes.push(type);
+        }
+
+        /*
+         * Register the new type on the ui-router url service.
+         */
+        router.urlService.config.type(
+            type.name,
+            {
+                encode: (obj) => this.trace('encode', type, obj, () => {
+                    if (obj === null || obj === undefined) {
+                        return obj;
+                    } else if (!!obj[REPR_TOKEN]) {
+                        return obj[REPR_TOKEN];
+                    } else {
+                        return type.represent(obj);
+                    }
+                }),
+                decode: (repr) => this.trace('decode', type, repr, () => {
+                    const obj = {};
+
+                    if (repr === null || repr === undefined) {
+                        /*
+                         * Keep missing values of optional parameters.
+                         */
+                        return repr;
+                    } else if (repr && typeof repr === 'object') {
+                        obj[REPR_TOKEN] = type.represent(repr);
+                        obj[RSLV_TOKEN] = (_context: UrlTypeResolveContext) => of(repr);
+                        obj[OBJ_TOKEN] = repr;
+                    } else {
+                        obj[REPR_TOKEN] = repr;
+                        obj[RSLV_TOKEN] = (context: UrlTypeResolveContext) =>
+                            this.resolveValue(type, repr, injector, context);
+                    }
+
+                    return obj;
+                }),
+                is: (obj) => {
+                    return !!obj &&
+                        typeof obj === 'object' &&
+                        obj.hasOwnProperty(REPR_TOKEN) &&
+                        obj.hasOwnProperty(RSLV_TOKEN);
+                },
+                equals: (a, b) => {
+                    if (a && b && typeof a === 'object' && typeof b === 'object') {
+                        /*
+                         * Compare objects by their representations, by the comparison rule of the
+                         * type. Both decoded values and resolved objects may be compared.
+                         */
+                        return compareReprs(getObjectRepr(type, a), getObjectRepr(type, b), type.reprComparison);
+                    } else {
+                        /*
+                         * Compare directly if we are not working on objects.
+                         */
+                        return a === b;
+                    }
+                },
+                pattern: type.match,
+            }
+        );
+    }
+
+}
@@ -0,0 +1,45 @@
+import { UrlTypeFactoryCacheSnapshot } from './url-type-factory-cache';
+import { UrlTypeRegistration } from './url-type-factory-types';
+
+
+/**
+ * Name of the global the devtools hook is installed as in debug mode.
+ */
+export const URL_TYPE_FACTORY_DEVTOOLS_HOOK = '__NGX_UI_ROUTER_URL_TYPE_FACTORY__';
+
+
+/**
+ * Hook installed as global in debug mode, to inspect the service in the browser devtools.
+ */
+export interface UrlTypeFactoryDevtools {
+
+    /**
+     * Gets the registered types.
+     * @returns {ReadonlyArray<UrlTypeRegistration>}
+     */
+    types: () => ReadonlyArray<UrlTypeRegistration>;
+
+    /**
+     * Gets the resolved URL type parameters of the current state, by parameter ID.
+     * @returns {{[paramId: string]: any}}
+     */
+    params: () => { [paramId: string]: any };
+
+    /**
+     * Gets snapshots of the cached objects, by type name and represented value.
+     * @returns {{[typeName: string]: {[repr: string]: UrlTypeFactoryCacheSnapshot}}}
+     */
+    cache: () => { [typeName: string]: { [repr: string]: UrlTypeFactoryCacheSnapshot } };
+
+}
+
+
+/**
+ * Installs the given devtools hook as global, if there is a global `window`.
+ * @param {UrlTypeFactoryDevtools} hook
+ */
+export function setDevtoolsHook(hook: UrlTypeFactoryDevtools) {
+    if (typeof window !== 'undefined') {
+        window[URL_TYPE_FACTORY_DEVTOOLS_HOOK] = hook;
+    }
+}
@@ -0,0 +1,123 @@
+import { Transition } from '@uirouter/core';
+import { RawParams } from '@uirouter/core/lib/params';
+import { TargetState } from '@uirouter/core/lib/state';
+
+import { getErrorStatus } from './url-type-factory-error';
+
+
+/**
+ * Failure kind an error rule applies to. Either an HTTP status code, `'network'` for
+ * requests that did not reach the server, or a predicate receiving the resolve error.
+ */
+export type UrlTypeErrorKind = number | 'network' | ((error: any, transition: Transition) => boolean);
+
+
+/**
+ * Rule that redirects the transition to another state if resolving an URL type fails.
+ */
+export interface UrlTypeErrorRule {
+
+    /**
+     * Failure kind or list of failure kinds the rule applies to.
+     */
+    when: UrlTypeErrorKind | UrlTypeErrorKind[];
+
+    /**
+     * Name of the state to redirect to, or a function returning the target state of
+     * the redirect.
+     */
+    redirectTo: string | ((error: any, transition: Transition) => TargetState);
+
+    /**
+     * Parameters of the state to redirect to. Ignored if `redirectTo` is a function.
+     */
+    params?: RawParams | ((error: any, transition: Transition) => RawParams);
+
+    /**
+     * Name of the parameter of the state to redirect to that receives the originally
+     * requested URL, e.g. to return to it after logging in. Ignored if `redirectTo` is
+     * a function.
+     */
+    returnUrlParam?: string;
+
+}
+
+
+/**
+ * List of error rules. The first matching rule determines the redirect.
+ */
+export type UrlTypeErrorPolicy = UrlTypeErrorRule[];
+
+
+/**
+ * Checks if the given error matches the given failure kind.
+ * @param {UrlTypeErrorKind} kind
+ * @param {any} error
+ * @param {Transition} transition
+ * @returns {boolean}
+ */
+function matchesErrorKind(kind: UrlTypeErrorKind, error: any, transition: Transition): boolean {
+    const status = getErrorStatus(error);
+
+    if (typeof kind === 'function') {
+        return !!kind(error, transition);
+    } else if (kind === 'network') {
+        return status === 0;
+    } else {
+        return status === kind;
+    }
+}
+
+
+/**
+ * Gets the first rule of the given policy that applies to the given error. Returns `null`
+ * if no rule applies.
+ * @param {UrlTypeErrorPolicy} policy
+ * @param {any} error
+ * @param {Transition} transition
+ * @returns {UrlTypeErrorRule}
+ */
+export function findErrorRule(policy: UrlTypeErrorPolicy, error: any, transition: Transition): UrlTypeErrorRule {
+    for (const rule of policy || []) {
+        const kinds = Array.isArray(rule.when) ? rule.when : [rule.when];
+
+        for (const kind of kinds) {
+            if (matchesErrorKind(kind, error, transition)) {
+                return rule;
+            }
+        }
+    }
+    return null;
+}
+
+
+/**
+ * Creates the target state of the redirect described by the given rule.
+ * @param {UrlTypeErrorRule} rule
+ * @param {any} error
+ * @param {Transition} transition
+ * @returns {TargetState}
+ */
+export function createErrorRedirect(rule: UrlTypeErrorRule, error: any, transition: Transition): TargetState {
+    const stateService = transition.router.stateService,
+        navigable = transition.$to().navigable;
+    let params: RawParams;
+
+    if (typeof rule.redirectTo === 'function') {
+        return rule.redirectTo(error, transition);
+    }
+
+    params = Object.assign(
+        {},
+        typeof rule.params === 'function' ? rule.params(error, transition) : rule.params
+    );
+
+    /*
+     * Pass the originally requested URL to the state we redirect to.
+     */
+    if (rule.returnUrlParam && navigable) {
+        params[rule.returnUrlParam] = navigable.url.format(transition.params('to'));
+    }
+
+    return stateService.target(rule.redirectTo, params);
+}
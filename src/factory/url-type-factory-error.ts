@@ -1,10 +1,185 @@
+import { TimeoutError } from 'rxjs';
+
+
+/**
+ * Gets the HTTP status of the given error, e.g. of an `HttpErrorResponse`. Returns `null`
+ * if the error does not carry a status.
+ * @param {any} error
+ * @returns {number}
+ */
+export function getErrorStatus(error: any): number {
+    if (error && typeof error === 'object' && typeof error.status === 'number') {
+        return error.status;
+    }
+    return null;
+}
+
+
 export class UrlTypeFactoryError extends Error {
+
+    constructor(message?: string) {
+        super(message);
+
+        /*
+         * Restore the prototype chain, which gets lost when extending `Error` in ES5
+         * code, to keep `instanceof` checks working.
+         */
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = 'UrlTypeFactoryError';
+    }
+
+}
+
+
+/**
+ * Details of an error registering an URL type.
+ */
+export interface UrlTypeFactoryRegistrationErrorDetails {
+    typeName?: string;
+    stateName?: string;
+    paramId?: string;
+    cause?: any;
 }
 
 
 export class UrlTypeFactoryRegistrationError extends UrlTypeFactoryError {
+
+    /**
+     * Name of the `UrlType` that could not be registered.
+     */
+    readonly typeName: string;
+
+    /**
+     * Name of the state the error occurred in, if any.
+     */
+    readonly stateName: string;
+
+    /**
+     * ID of the parameter the error occurred for, if any.
+     */
+    readonly paramId: string;
+
+    /**
+     * The original error, if any.
+     */
+    readonly cause: any;
+
+    constructor(message: string, details: UrlTypeFactoryRegistrationErrorDetails = {}) {
+        super(message);
+
+        this.name = 'UrlTypeFactoryRegistrationError';
+        this.typeName = details.typeName || null;
+        this.stateName = details.stateName || null;
+        this.paramId = details.paramId || null;
+        this.cause = details.cause;
+    }
+
+}
+
+
+/**
+ * Details of an error resolving an URL type parameter.
+ */
+export interface UrlTypeFactoryResolveErrorDetails {
+    paramId: string;
+    typeName: string;
+    value: any;
+    stateName: string;
+    cause?: any;
 }
 
 
 export class UrlTypeFactoryResolveError extends UrlTypeFactoryError {
+
+    /**
+     * ID of the parameter that failed to resolve.
+     */
+    readonly paramId: string;
+
+    /**
+     * Name of the `UrlType` of the parameter.
+     */
+    readonly typeName: string;
+
+    /**
+     * The raw value matched in the URL.
+     */
+    readonly value: any;
+
+    /**
+     * Name of the state the parameter was resolved for.
+     */
+    readonly stateName: string;
+
+    /**
+     * The original error, e.g. an `HttpErrorResponse`.
+     */
+    readonly cause: any;
+
+    /**
+     * HTTP status of the original error, or `null` if it does not carry a status.
+     */
+    readonly status: number;
+
+    constructor(message: string, details: UrlTypeFactoryResolveErrorDetails) {
+        super(message);
+
+        this.name = 'UrlTypeFactoryResolveError';
+        this.paramId = details.paramId;
+        this.typeName = details.typeName;
+        this.value = details.value;
+        this.stateName = details.stateName;
+        this.cause = details.cause;
+        this.status = getErrorStatus(details.cause);
+    }
+
+}
+
+
+/**
+ * Details of a timeout resolving an URL type parameter.
+ */
+export interface UrlTypeFactoryResolveTimeoutErrorDetails extends UrlTypeFactoryResolveErrorDetails {
+    timeout: number;
+}
+
+
+export class UrlTypeFactoryResolveTimeoutError extends UrlTypeFactoryResolveError {
+
+    /**
+     * Time in milliseconds the resolved object did not arrive in.
+     */
+    readonly timeout: number;
+
+    constructor(message: string, details: UrlTypeFactoryResolveTimeoutErrorDetails) {
+        super(message, details);
+
+        this.name = 'UrlTypeFactoryResolveTimeoutError';
+        this.timeout = details.timeout;
+    }
+
+}
+
+
+/**
+ * Creates the error of an URL type parameter that failed to resolve, a
+ * `UrlTypeFactoryResolveTimeoutError` if the object did not arrive within the timeout of the
+ * resolve policy. The given target completes the message, e.g. `for the state 'projects'`.
+ * @param {string} target
+ * @param {UrlTypeFactoryResolveErrorDetails} details
+ * @param {number} timeout
+ * @returns {UrlTypeFactoryResolveError}
+ */
+export function createResolveError(target: string, details: UrlTypeFactoryResolveErrorDetails,
+                                   timeout: number): UrlTypeFactoryResolveError {
+    const message = `The URL parameter '${details.paramId}' of type '${details.typeName}'`;
+
+    if (details.cause instanceof TimeoutError) {
+        return new UrlTypeFactoryResolveTimeoutError(
+            `${message} timed out ${target}.`,
+            Object.assign({timeout: timeout}, details)
+        );
+    }
+
+    return new UrlTypeFactoryResolveError(`${message} rejected ${target}.`, details);
 }
@@ -0,0 +1,170 @@
+import { Resolvable, Transition } from '@uirouter/core';
+import { StateObject } from '@uirouter/core/lib/state';
+import { Observable, Subscription } from 'rxjs';
+
+
+/**
+ * A parameter that keeps receiving values from an observable returned by `UrlType.resolve`
+ * until its state gets exited.
+ */
+export interface UrlTypeLiveParam {
+    transition: Transition;
+    paramId: string;
+    state: StateObject;
+    resolvables: Resolvable[];
+    initial: any;
+    value: any;
+    blocking: boolean;
+    settled: boolean;
+    controller: AbortController;
+    subscription: Subscription;
+}
+
+
+/**
+ * Parameters that keep receiving values after their first value, until their state gets
+ * exited. Later values are passed to the given update function.
+ */
+export class UrlTypeLiveParams {
+
+    protected _params: UrlTypeLiveParam[] = [];
+
+    constructor(protected _update: (live: UrlTypeLiveParam) => void) {
+    }
+
+    /**
+     * Subscribes to the resolved observable of the given parameter of the given state and
+     * returns a promise resolving to its first value. Later values update the parameter until
+     * it gets released. The given controller gets aborted if the parameter gets released
+     * before its first value arrived, the promise then resolves to `undefined`.
+     * @param {Transition} transition
+     * @param {string} paramId
+     * @param {StateObject} state
+     * @param {Resolvable[]} resolvables
+     * @param {Observable<any>} resolved
+     * @param {boolean} blocking
+     * @param {AbortController} controller
+     * @returns {Promise<any>}
+     */
+    subscribe(transition: Transition, paramId: string, state: StateObject, resolvables: Resolvable[],
+              resolved: Observable<any>, blocking: boolean, controller: AbortController): Promise<any> {
+        return new Promise((resolve, reject) => {
+            const live: UrlTypeLiveParam = {
+                transition: transition,
+                paramId: paramId,
+                state: state,
+                resolvables: resolvables,
+                initial: transition.params('to')[paramId],
+                value: undefined,
+                blocking: blocking,
+                settled: false,
+                controller: controller,
+                subscription: null,
+            };
+
+            live.subscription = resolved.subscribe({
+                next: (value) => {
+                    if (!live.settled) {
+                        live.settled = true;
+                        live.value = value;
+
+                        /*
+                         * Objects of non-blocking parameters are applied as soon as they
+                         * arrive, which may be after the transition succeeded.
+                         */
+                        if (!live.blocking) {
+                            this._update(live);
+                        }
+
+                        resolve(value);
+                    } else if (value !== live.value) {
+                        live.value = value;
+                        this._update(live);
+                    }
+                },
+                error: (error) => {
+                    if (!live.settled) {
+                        live.settled = true;
+                        reject(error);
+                    }
+
+                    this.release(live);
+                },
+                complete: () => {
+                    if (!live.settled) {
+                        live.settled = true;
+                        reject(new Error(`The resolved observable completed without a value.`));
+                    }
+
+                    this.release(live);
+                },
+            });
+
+            /*
+             * Keep the subscription alive until the transition fails or the state of the
+             * parameter gets exited.
+             */
+            if (!live.subscription.closed) {
+                this._params.push(live);
+
+                controller.signal.addEventListener('abort', () => {
+                    if (!live.settled) {
+                        live.settled = true;
+                        resolve(undefined);
+                    }
+
+                    this.release(live);
+                });
+                transition.promise.catch(() => this.release(live));
+            }
+        });
+    }
+
+    /**
+     * Gets the live parameters of the given parameter ID and state.
+     * @param {string} paramId
+     * @param {StateObject} state
+     * @returns {UrlTypeLiveParam[]}
+     */
+    find(paramId: string, state: StateObject): UrlTypeLiveParam[] {
+        return this._params.filter((live) => live.paramId === paramId && live.state === state);
+    }
+
+    /**
+     * Stops receiving values for live parameters whose state got exited or whose value
+     * got replaced by the given successful transition.
+     * @param {Transition} transition
+     */
+    releaseReplaced(transition: Transition) {
+        const exiting = transition.exiting().map((s) => s.$$state()),
+            params = transition.params('to');
+
+        for (const live of this._params.slice()) {
+            if (live.transition !== transition &&
+                (exiting.indexOf(live.state) !== -1 ||
+                    (params[live.paramId] !== live.value && params[live.paramId] !== live.initial))) {
+                this.release(live);
+            }
+        }
+    }
+
+    /**
+     * Stops receiving values for the given live parameter.
+     * @param {UrlTypeLiveParam} live
+     */
+    release(live: UrlTypeLiveParam) {
+        this._params = this._params.filter((l) => l !== live);
+
+        if (live.subscription) {
+            live.subscription.unsubscribe();
+        }
+
+        /*
+         * Parameters released before their first value arrived are cancelled.
+         */
+        if (!live.settled) {
+            live.controller.abort();
+        }
+    }
+
+}
@@ -0,0 +1,65 @@
+import { UrlTypeErrorPolicy } from './url-type-factory-error-policy';
+import { UrlTypeResolvePolicy } from './url-type-factory-resolve-policy';
+
+
+export interface UrlTypeCacheConfiguration {
+
+    /**
+     * Time in milliseconds a resolved object is kept in the cache. Objects are kept until
+     * they get evicted or invalidated if no TTL is given.
+     */
+    ttl?: number;
+
+    /**
+     * Maximum number of resolved objects kept in the cache for the type.
+     */
+    maxSize?: number;
+
+}
+
+
+export interface UrlTypePrefetchConfiguration {
+
+    /**
+     * Time in milliseconds prefetched objects of types without a cache configuration are
+     * kept for the next transition. Defaults to 10 seconds.
+     */
+    ttl?: number;
+
+}
+
+
+/**
+ * Framework-agnostic options of the URL type factory.
+ */
+export interface UrlTypeFactoryOptions {
+
+    /**
+     * Cache configurations by type name. Resolved objects of types without a cache
+     * configuration are fetched again on every transition.
+     */
+    cache?: { [typeName: string]: UrlTypeCacheConfiguration };
+
+    /**
+     * Error rules applied to all types if resolving fails and none of the rules of the
+     * type itself applies.
+     */
+    errorPolicy?: UrlTypeErrorPolicy;
+
+    /**
+     * Timeout and retry policy applied to all types. The policy of a type overrides the
+     * single options of this policy.
+     */
+    resolvePolicy?: UrlTypeResolvePolicy;
+
+    /**
+     * Configuration of objects prefetched by the `uiSrefPrefetch` directive.
+     */
+    prefetch?: UrlTypePrefetchConfiguration;
+
+    /**
+     * Enables the debug mode, which logs all encode, decode and resolve steps with their
+     * timings, and installs the devtools hook as global `__NGX_UI_ROUTER_URL_TYPE_FACTORY__`.
+     */
+    debug?: boolean;
+}
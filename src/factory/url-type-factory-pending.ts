@@ -0,0 +1,40 @@
+/**
+ * Status of the object of a non-blocking URL type parameter.
+ */
+export type UrlTypePendingStatus = 'pending' | 'resolved' | 'rejected';
+
+
+/**
+ * Object of a non-blocking URL type parameter that is bound to the components instead of the
+ * resolved object. Bound components receive a new instance as soon as the status changes.
+ */
+export class UrlTypePendingValue<T> {
+
+    /**
+     * Whether the object is still resolving, got resolved or failed to resolve.
+     */
+    readonly status: UrlTypePendingStatus;
+
+    /**
+     * Promise resolving to the object, or rejecting with the error resolving it.
+     */
+    readonly promise: Promise<T>;
+
+    /**
+     * The resolved object, `undefined` until it got resolved.
+     */
+    readonly value: T;
+
+    /**
+     * The error resolving the object, `undefined` unless resolving failed.
+     */
+    readonly error: any;
+
+    constructor(status: UrlTypePendingStatus, promise: Promise<T>, value?: T, error?: any) {
+        this.status = status;
+        this.promise = promise;
+        this.value = value;
+        this.error = error;
+    }
+
+}
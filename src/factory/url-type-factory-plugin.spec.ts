@@ -0,0 +1,102 @@
+import { waitForAsync } from '@angular/core/testing';
+
+import { memoryLocationPlugin, servicesPlugin, UIRouter } from '@uirouter/core';
+
+import { UrlType, UrlTypeInjector } from './url-type-factory-types';
+import { createUrlTypeInjector, UrlTypeFactoryPlugin } from './url-type-factory-plugin';
+
+
+export class ProjectApiTestService {
+
+    get(pk: number) {
+        return Promise.resolve({
+            'pk': pk,
+            'name': `Project ${pk}`,
+        });
+    }
+
+}
+
+
+export class ProjectPluginTestType implements UrlType<any> {
+    name = 'Project';
+    match = /\d+/;
+    bindable = true;
+
+    represent(obj: any): string {
+        return String(obj.pk);
+    }
+
+    resolve(matched: string, injector: UrlTypeInjector) {
+        return injector.get('projectApi').get(Number(matched));
+    }
+
+}
+
+
+describe('UrlTypeFactoryPlugin', () => {
+    let
+        router: UIRouter = null,
+        plugin: UrlTypeFactoryPlugin = null;
+
+    beforeEach(() => {
+        router = new UIRouter();
+        router.plugin(servicesPlugin);
+        router.plugin(memoryLocationPlugin);
+
+        plugin = router.plugin(UrlTypeFactoryPlugin, {
+            types: [ProjectPluginTestType],
+            injector: createUrlTypeInjector(new Map([['projectApi', new ProjectApiTestService()]])),
+            cache: {
+                Project: {},
+            },
+        });
+
+        router.stateRegistry.register({
+            name: 'project',
+            url: '/project/{project:Project}',
+        });
+    });
+
+    afterEach(() => {
+        router.dispose();
+    });
+
+    it('Does register the types on the router',
+        waitForAsync(() => {
+            expect(router.getPlugin('UrlTypeFactoryPlugin')).toBe(plugin);
+            expect(plugin.factory.registeredTypes.map((type) => type.name)).toEqual(['Project']);
+            expect(plugin.factory.registeredTypes[0].states).toEqual(['project']);
+        })
+    );
+
+    it('Does resolve url types by the dependency lookup',
+        waitForAsync(() => {
+            router.stateService.go('project', {project: 42}).then(() => {
+                expect(router.globals.params.project).toEqual({
+                    'pk': 42,
+                    'name': 'Project 42',
+                });
+                expect(router.stateService.href('project', router.globals.params)).toContain('/project/42');
+            });
+        })
+    );
+
+    it('Does remove its hooks on dispose', () => {
+        const
+            hookCount = router.transitionService.getHooks('onStart').length;
+
+        plugin.dispose();
+
+        expect(router.transitionService.getHooks('onStart').length).toBe(hookCount - 2);
+    });
+
+    it('Does reject unknown dependencies of the lookup', () => {
+        const
+            injector = createUrlTypeInjector();
+
+        expect(injector.get('projectApi', null)).toBe(null);
+        expect(() => injector.get('projectApi')).toThrowError(/projectApi/);
+    });
+
+});
@@ -0,0 +1,155 @@
+import { Transition, UIRouterPlugin } from '@uirouter/core';
+import { UIRouter } from '@uirouter/core/lib/router';
+
+import { UrlTypeFactory } from './url-type-factory-core';
+import { UrlType, UrlTypeInjector } from './url-type-factory-types';
+import { UrlTypeFactoryOptions } from './url-type-factory-options';
+
+
+/**
+ * Class of a URL type that can be created without arguments.
+ */
+export type UrlTypeClass = new () => UrlType<any>;
+
+
+export interface UrlTypeFactoryPluginOptions extends UrlTypeFactoryOptions {
+
+    /**
+     * Types to register, either as instances or as classes that are created without arguments.
+     */
+    types?: (UrlType<any> | UrlTypeClass)[];
+
+    /**
+     * Dependency lookup passed to `UrlType.resolve` of the types. Defaults to a lookup
+     * without any dependencies.
+     */
+    injector?: UrlTypeInjector;
+
+    /**
+     * Factory to set up on the router, e.g. the one of a framework adapter. A new factory is
+     * created with the options if none is given, otherwise the options besides the types and
+     * the injector are ignored.
+     */
+    factory?: UrlTypeFactory;
+
+}
+
+
+/**
+ * Creates a dependency lookup that gets the dependencies from the given map.
+ * @param {Map<any, any>} dependencies
+ * @returns {UrlTypeInjector}
+ */
+export function createUrlTypeInjector(dependencies: Map<any, any> = new Map()): UrlTypeInjector {
+    return {
+        get: (token: any, notFoundValue?: any) => {
+            if (dependencies.has(token)) {
+                return dependencies.get(token);
+            } else if (notFoundValue !== undefined) {
+                return notFoundValue;
+            }
+
+            throw new Error(`There is no dependency for the token '${String(token)}'.`);
+        },
+    };
+}
+
+
+/**
+ * ui-router plugin resolving the URL type parameters of the transitions, e.g.
+ * `router.plugin(UrlTypeFactoryPlugin, {types: [ProjectUrlType]})`. It works with any ui-router
+ * implementation, the Angular module sets it up with the Angular injector.
+ */
+export class UrlTypeFactoryPlugin implements UIRouterPlugin {
+
+    name = 'UrlTypeFactoryPlugin';
+
+    protected _factory: UrlTypeFactory;
+    protected _deregisterFns: Function[] = [];
+
+    constructor(router: UIRouter, options: UrlTypeFactoryPluginOptions = {}) {
+        const factory = options.factory || new UrlTypeFactory(options),
+            injector = options.injector || createUrlTypeInjector();
+
+        this._factory = factory;
+
+        for (const type of options.types || []) {
+            factory.registerType(typeof type === 'function' ? new type() : type, router, injector);
+        }
+
+        if (factory.configuration.debug) {
+            factory.installDevtoolsHook(router);
+        }
+
+        /*
+         * Prepare the URL type parameters of all states, including the states that get
+         * registered later on.
+         */
+        for (const state of router.stateRegistry.get()) {
+            factory.configureStateObject(state.$$state());
+        }
+
+        this._deregisterFns.push(router.stateRegistry.onStatesChanged((event, states) => {
+            if (event === 'registered') {
+                for (const state of states) {
+                    factory.configureStateObject(state.$$state());
+                }
+            }
+        }));
+
+        /*
+         * Cancel the resolving of transitions as soon as they get superseded, aborted or
+         * redirected by another transition.
+         */
+        this._deregisterFns.push(
+            router.transitionService.onStart({}, () => factory.cancelStaleTransitions(), {priority: 1000}),
+            router.transitionService.onError({}, () => factory.cancelStaleTransitions())
+        );
+
+        /*
+         * Stop updating live parameters as soon as their states get exited.
+         */
+        this._deregisterFns.push(
+            router.transitionService.onSuccess({}, (transition: Transition) => factory.releaseLiveParams(transition))
+        );
+
+        /*
+         * Replace non-canonical URLs of types that opted in to canonical URLs.
+         */
+        this._deregisterFns.push(
+            router.transitionService.onSuccess({}, (transition: Transition) => factory.replaceCanonicalUrl(transition))
+        );
+
+        /*
+         * Configure the transition event handler to deal with the ui-router types.
+         */
+        this._deregisterFns.push(router.transitionService.onStart(
+            {
+                to: (state) => {
+                    return factory.getTypeParamsFromStateObject(state, false).length !== 0;
+                }
+            },
+            (transition: Transition) => {
+                return factory.doTransition(transition);
+            }
+        ));
+    }
+
+    /**
+     * The factory set up on the router.
+     * @returns {UrlTypeFactory}
+     */
+    get factory(): UrlTypeFactory {
+        return this._factory;
+    }
+
+    /**
+     * Removes the transition hooks of the plugin from the router.
+     */
+    dispose() {
+        for (const deregister of this._deregisterFns.splice(0)) {
+            deregister();
+        }
+    }
+
+}
@@ -0,0 +1,45 @@
+import { Observable } from 'rxjs';
+
+import { UrlTypeCacheConfiguration, UrlTypePrefetchConfiguration } from './url-type-factory-options';
+
+
+const DEFAULT_PREFETCH_TTL = 10000;
+
+
+/**
+ * Gets the cache configuration of prefetched objects of types without a cache configuration,
+ * which keeps them for the prefetch TTL of the given configuration.
+ * @param {UrlTypePrefetchConfiguration} configuration
+ * @returns {UrlTypeCacheConfiguration}
+ */
+export function getPrefetchCacheConfiguration(configuration: UrlTypePrefetchConfiguration = {}): UrlTypeCacheConfiguration {
+    return {
+        ttl: configuration.ttl || DEFAULT_PREFETCH_TTL,
+    };
+}
+
+
+/**
+ * Subscribes to the given resolved observable ahead of a transition and returns a promise
+ * resolving as soon as the first object arrives. The subscription is kept until resolved
+ * observables complete, so that completed objects stay in the cache. The promise never rejects.
+ * @param {Observable<any>} resolved
+ * @returns {Promise<void>}
+ */
+export function prefetchResolved(resolved: Observable<any>): Promise<void> {
+    return new Promise<void>((resolve) => {
+        const subscription = resolved.subscribe({
+            next: () => {
+                resolve();
+
+                /*
+                 * Observables that keep emitting get released, the transition subscribes
+                 * to them again.
+                 */
+                Promise.resolve().then(() => subscription.unsubscribe());
+            },
+            error: () => resolve(),
+            complete: () => resolve(),
+        });
+    });
+}
@@ -0,0 +1,59 @@
+import { Param } from '@uirouter/core/lib/params';
+
+import { UrlTypeFactoryError } from './url-type-factory-error';
+import { UrlType } from './url-type-factory-types';
+import { compareReprs, getObjectReprs } from './url-type-factory-values';
+
+
+/**
+ * Selects the URL type parameters of the active state to refresh, by the parameter and its
+ * current value.
+ */
+export type UrlTypeRefreshFilter = (param: Param, value: any) => boolean;
+
+
+/**
+ * Creates the filter selecting the parameter of the given ID, or all parameters if no
+ * parameter ID is given.
+ * @param {string} paramId
+ * @returns {UrlTypeRefreshFilter}
+ */
+export function createParamRefreshFilter(paramId?: string): UrlTypeRefreshFilter {
+    return (param) => !paramId || param.id === paramId;
+}
+
+
+/**
+ * Creates the filter selecting the parameters of the given type, or only the ones whose
+ * objects are represented by the given represented value if given.
+ * @param {UrlType<any>} type
+ * @param {string} repr
+ * @returns {UrlTypeRefreshFilter}
+ */
+export function createTypeRefreshFilter(type: UrlType<any>, repr?: string): UrlTypeRefreshFilter {
+    return (param, value) => {
+        if (param.type.name !== type.name) {
+            return false;
+        } else if (repr === null || repr === undefined) {
+            return true;
+        }
+
+        return getObjectReprs(type, value).some((r) => compareReprs(r, String(repr), type.reprComparison));
+    };
+}
+
+
+/**
+ * Returns a promise rejecting as soon as the given signal aborts, as refreshing the given
+ * parameter got cancelled by a transition.
+ * @param {string} paramId
+ * @param {AbortSignal} signal
+ * @returns {Promise<any>}
+ */
+export function whenRefreshCancelled(paramId: string, signal: AbortSignal): Promise<any> {
+    return new Promise<any>((_resolve, reject) => {
+        signal.addEventListener('abort', () => reject(new UrlTypeFactoryError(
+            `Refreshing the URL parameter '${paramId}' got cancelled by a transition.`
+        )));
+    });
+}
@@ -0,0 +1,86 @@
+import { defer, Observable, throwError, timer } from 'rxjs';
+import { retry, timeout } from 'rxjs/operators';
+
+
+/**
+ * Policy for calling `UrlType.resolve`, e.g. to fail slow requests and to retry requests
+ * to flaky backends.
+ */
+export interface UrlTypeResolvePolicy {
+
+    /**
+     * Time in milliseconds the first resolved object of each attempt must arrive in. Attempts
+     * exceeding the timeout fail with an `rxjs` `TimeoutError`, which surfaces as
+     * `UrlTypeFactoryResolveTimeoutError` if no attempt is left.
+     */
+    timeout?: number;
+
+    /**
+     * Number of times a failed resolve gets retried. Defaults to `0`.
+     */
+    retries?: number;
+
+    /**
+     * Delay in milliseconds before the first retry. The delay doubles with every further
+     * retry. Defaults to `0`.
+     */
+    backoff?: number;
+
+    /**
+     * Determines if the given error of the given attempt, starting at `1`, gets retried.
+     * All errors are retried if not given.
+     * @param {any} error
+     * @param {number} attempt
+     * @returns {boolean}
+     */
+    retryIf?: (error: any, attempt: number) => boolean;
+
+}
+
+
+/**
+ * Gets the policy that applies to a type by merging the given policy of the type into the
+ * given policy of the module configuration.
+ * @param {UrlTypeResolvePolicy} configurationPolicy
+ * @param {UrlTypeResolvePolicy} typePolicy
+ * @returns {UrlTypeResolvePolicy}
+ */
+export function mergeResolvePolicies(configurationPolicy: UrlTypeResolvePolicy,
+                                     typePolicy: UrlTypeResolvePolicy): UrlTypeResolvePolicy {
+    return Object.assign({}, configurationPolicy, typePolicy);
+}
+
+
+/**
+ * Applies the given policy to the observable created by the given function. The function gets
+ * called again for every retry.
+ * @param {() => Observable<T>} resolve
+ * @param {UrlTypeResolvePolicy} policy
+ * @returns {Observable<T>}
+ */
+export function applyResolvePolicy<T>(resolve: () => Observable<T>, policy: UrlTypeResolvePolicy): Observable<T> {
+    let resolved = defer(resolve);
+
+    if (policy.timeout) {
+        resolved = resolved.pipe(
+            timeout({first: policy.timeout})
+        );
+    }
+
+    if (policy.retries) {
+        resolved = resolved.pipe(
+            retry({
+                count: policy.retries,
+                delay: (error, attempt) => {
+                    if (policy.retryIf && !policy.retryIf(error, attempt)) {
+                        return throwError(() => error);
+                    }
+
+                    return timer((policy.backoff || 0) * Math.pow(2, attempt - 1));
+                },
+            })
+        );
+    }
+
+    return resolved;
+}
@@ -0,0 +1,130 @@
+import { Injector, Type } from '@angular/core';
+import { HttpClient, HttpHeaders } from '@angular/common/http';
+
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
+
+import { UrlType, UrlTypeResolveContext } from './url-type-factory-types';
+import { UrlTypeErrorPolicy } from './url-type-factory-error-policy';
+
+
+/**
+ * Headers sent with the requests of a REST URL type.
+ */
+export type RestUrlTypeHeaders = HttpHeaders | { [header: string]: string | string[] };
+
+
+/**
+ * Resolved objects of the parameters a REST URL type depends on, by parameter ID.
+ */
+export type RestUrlTypeParams = { [paramId: string]: any };
+
+
+/**
+ * Options of a URL type built by `createRestUrlType`.
+ */
+export interface RestUrlTypeOptions<T> {
+
+    /**
+     * Name of the new type.
+     */
+    name: string;
+
+    /**
+     * Regex the new type should match in the URL.
+     */
+    match: RegExp;
+
+    /**
+     * URL of the resource. The placeholder `:id` gets replaced by the matched value, or
+     * a function returning the URL for the matched value and the resolved objects of the
+     * parameters listed by `dependsOn` may be given instead.
+     */
+    endpoint: string | ((matched: string, params: RestUrlTypeParams) => string);
+
+    /**
+     * Attribute of the fetched objects that is used as their URL representation.
+     */
+    key: keyof T;
+
+    /**
+     * Optional method that maps the response body to the object that gets bound.
+     * @param {any} response
+     * @param {string} matched
+     * @param {RestUrlTypeParams} params
+     * @returns {T}
+     */
+    map?: (response: any, matched: string, params: RestUrlTypeParams) => T;
+
+    /**
+     * Headers sent with the requests, or a function returning them, e.g. to read an
+     * authentication token from a service.
+     */
+    headers?: RestUrlTypeHeaders | ((injector: Injector, params: RestUrlTypeParams) => RestUrlTypeHeaders);
+
+    /**
+     * Determines if the fetched objects can be bound to components. Defaults to `true`.
+     */
+    bindable?: boolean;
+
+    /**
+     * Names of the types this type depends on. The resolved objects of their parameters
+     * are passed to `endpoint`, `headers` and `map`.
+     */
+    dependsOn?: string[];
+
+    /**
+     * Error rules that redirect the transition to another state if fetching fails.
+     */
+    errorPolicy?: UrlTypeErrorPolicy;
+
+}
+
+
+/**
+ * Gets the URL of the resource of the given matched value.
+ * @param {string | ((matched: string, params: RestUrlTypeParams) => string)} endpoint
+ * @param {string} matched
+ * @param {RestUrlTypeParams} params
+ * @returns {string}
+ */
+function getEndpointUrl(endpoint: string | ((matched: string, params: RestUrlTypeParams) => string),
+                        matched: string, params: RestUrlTypeParams): string {
+    if (typeof endpoint === 'function') {
+        return endpoint(matched, params);
+    }
+
+    return endpoint.replace(':id', encodeURIComponent(matched));
+}
+
+
+/**
+ * Creates a URL type class that fetches its objects from a REST API by the Angular `HttpClient`.
+ * The class can be registered in the `types` of the module configuration like any other type.
+ * The `HttpClientModule` must be imported by the application.
+ * @param {RestUrlTypeOptions<T>} options
+ * @returns {Type<UrlType<T>>}
+ */
+export function createRestUrlType<T>(options: RestUrlTypeOptions<T>): Type<UrlType<T>> {
+    return class RestUrlType implements UrlType<T> {
+        name = options.name;
+        match = options.match;
+        bindable = options.bindable !== false;
+        dependsOn = options.dependsOn;
+        errorPolicy = options.errorPolicy;
+
+        represent(obj: T): string {
+            return String(obj[options.key]);
+        }
+
+        resolve(matched: string, injector: Injector, context?: UrlTypeResolveContext): Observable<T> {
+            const params = context ? context.params : {},
+                http = injector.get(HttpClient),
+                headers = typeof options.headers === 'function' ? options.headers(injector, params) : options.headers;
+
+            return http.get(getEndpointUrl(options.endpoint, matched, params), {headers: headers}).pipe(
+                map((response) => options.map ? options.map(response, matched, params) : <T>response)
+            );
+        }
+    };
+}
@@ -0,0 +1,28 @@
+import { InjectionToken } from '@angular/core';
+
+import { UrlType } from './url-type-factory-types';
+
+
+const URL_TYPE_TOKENS = new Map<string, InjectionToken<any>>();
+
+
+/**
+ * Gets the injection token of the resolved objects of the given type or type name. Routed
+ * components of states with a parameter of the type, and all of their child components and
+ * services, can inject the resolved object by the token, e.g.
+ * `@Inject(getUrlTypeToken('Project')) project: Project`. If the state path has multiple
+ * parameters of the type, the token provides the object of the parameter resolved last.
+ * @param {UrlType<T> | string} type
+ * @returns {InjectionToken<T>}
+ */
+export function getUrlTypeToken<T>(type: UrlType<T> | string): InjectionToken<T> {
+    const typeName = typeof type === 'string' ? type : type.name;
+    let token = URL_TYPE_TOKENS.get(typeName);
+
+    if (!token) {
+        token = new InjectionToken<T>(`NGX_UI_ROUTER_URL_TYPE_${typeName}`);
+        URL_TYPE_TOKENS.set(typeName, token);
+    }
+
+    return token;
+}
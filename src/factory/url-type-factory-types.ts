@@ -0,0 +1,354 @@
+import { Resolvable, TargetState, Transition } from '@uirouter/core';
+import { Observable } from 'rxjs';
+
+import { UrlTypeErrorPolicy } from './url-type-factory-error-policy';
+import { UrlTypeResolvePolicy } from './url-type-factory-resolve-policy';
+
+
+/**
+ * Dependency lookup passed to `UrlType.resolve`, e.g. the Angular `Injector` or the
+ * AngularJS `$injector`. Frameworks without dependency injection may pass any object
+ * implementing `get`.
+ */
+export interface UrlTypeInjector {
+
+    /**
+     * Gets the dependency of the given token. Returns the given default value if there is
+     * no such dependency, or throws if no default value is given.
+     * @param {any} token
+     * @param {any} notFoundValue
+     * @returns {any}
+     */
+    get(token: any, notFoundValue?: any): any;
+
+}
+
+
+/**
+ * Context passed to `UrlType.resolve` next to the injector.
+ */
+export interface UrlTypeResolveContext {
+
+    /**
+     * Transition the object gets resolved for, or `null` if it gets prefetched or resolved
+     * for an Angular route.
+     */
+    transition: Transition;
+
+    /**
+     * Signal that aborts as soon as the transition gets superseded, aborted or redirected.
+     */
+    signal: AbortSignal;
+
+    /**
+     * Whether the object gets resolved ahead of a transition by `prefetch`.
+     */
+    prefetch?: boolean;
+
+    /**
+     * Resolved objects of the parameters the type depends on, by parameter ID.
+     */
+    params: { [paramId: string]: any };
+
+}
+
+
+/**
+ * Context passed to `UrlType.canActivate` next to the resolved object.
+ */
+export interface UrlTypeActivationContext {
+
+    /**
+     * Transition the object got resolved for.
+     */
+    transition: Transition;
+
+    /**
+     * ID of the parameter the object got resolved for.
+     */
+    paramId: string;
+
+    /**
+     * Dependency lookup the type got registered with.
+     */
+    injector: UrlTypeInjector;
+
+    /**
+     * Resolved objects of all URL type parameters of the transition, by parameter ID.
+     */
+    params: { [paramId: string]: any };
+
+}
+
+
+/**
+ * Result of `UrlType.canActivate`. `false` aborts the transition, a target state
+ * redirects it.
+ */
+export type UrlTypeActivationResult = boolean | TargetState;
+
+
+/**
+ * Update of a resolved parameter value that was emitted after the transition got
+ * the first value of the parameter.
+ */
+export interface UrlTypeParamUpdate {
+
+    /**
+     * Transition the parameter was resolved for.
+     */
+    transition: Transition;
+
+    /**
+     * ID of the updated parameter.
+     */
+    paramId: string;
+
+    /**
+     * The new resolved object.
+     */
+    value: any;
+
+    /**
+     * Resolvables the object is bound and injected by.
+     */
+    resolvables: Resolvable[];
+
+}
+
+
+/**
+ * Type of a resolution lifecycle event.
+ */
+export type UrlTypeResolveEventType = 'resolveStart' | 'resolveSuccess' | 'resolveError' | 'resolveCancelled';
+
+
+/**
+ * Resolution lifecycle event of a parameter, e.g. for loading indicators or telemetry.
+ */
+export interface UrlTypeResolveEvent {
+
+    /**
+     * Type of the event.
+     */
+    type: UrlTypeResolveEventType;
+
+    /**
+     * Transition the parameter gets resolved for.
+     */
+    transition: Transition;
+
+    /**
+     * ID of the parameter.
+     */
+    paramId: string;
+
+    /**
+     * Name of the type of the parameter.
+     */
+    typeName: string;
+
+    /**
+     * Represented value of the parameter, as matched in the URL.
+     */
+    value: any;
+
+    /**
+     * Time in milliseconds since the resolving started, `0` for `resolveStart` events.
+     */
+    duration: number;
+
+    /**
+     * The error the parameter got rejected with, for `resolveError` events.
+     */
+    error?: any;
+
+}
+
+
+/**
+ * Read-only description of a registered type.
+ */
+export interface UrlTypeRegistration {
+
+    /**
+     * Name of the type.
+     */
+    readonly name: string;
+
+    /**
+     * Regex the type matches in the URL.
+     */
+    readonly pattern: RegExp;
+
+    /**
+     * Determines if the objects of the type are bound to components.
+     */
+    readonly bindable: boolean;
+
+    /**
+     * Names of the registered states declaring parameters of the type.
+     */
+    readonly states: ReadonlyArray<string>;
+
+}
+
+
+/**
+ * Rule for comparing representations of objects of a type.
+ */
+export interface UrlTypeReprComparison {
+
+    /**
+     * Determines if representations are compared case-sensitively. Defaults to `true`.
+     */
+    caseSensitive?: boolean;
+
+    /**
+     * Optional method that normalizes representations before they get compared, e.g. to
+     * compare slugs by their ID only.
+     * @param {string} repr
+     * @returns {string}
+     */
+    normalize?: (repr: string) => string;
+
+}
+
+
+/**
+ * Interface a URL matcher type must implement.
+ */
+export interface UrlType<T> {
+
+    /**
+     * Name of the new type.
+     */
+    name: string;
+
+    /**
+     * Regex the new type should match in the URL.
+     */
+    match: RegExp;
+
+    /**
+     * Method that returns the URL representation of the given object as string.
+     * @param {T} obj
+     * @returns {string}
+     */
+    represent: (obj: T) => string;
+
+    /**
+     * Method that returns a promise resolving to the actual fetched object. If the
+     * returned Promise gets rejected, the router transitions to an error. Requests
+     * should be cancelled as soon as the signal of the context aborts.
+     *
+     * If an observable is returned, the transition waits for its first value. Later
+     * values update the parameter and the bound component inputs until the state
+     * gets exited.
+     * @param {string} matched
+     * @param {UrlTypeInjector} injector
+     * @param {UrlTypeResolveContext} context
+     * @returns {Observable<T> | Promise<T> | {$promise: Promise<T>} | any}
+     */
+    resolve: (matched: string, injector: UrlTypeInjector, context?: UrlTypeResolveContext) =>
+        Observable<T> | Promise<T> | { $promise: Promise<T> } | any;
+
+    /**
+     * Optional method that resolves the objects of multiple matched values of an array
+     * parameter at once, e.g. by a single bulk request. The resolved objects must be in
+     * the order of the matched values. If not implemented, `resolve` gets called for each
+     * of the values.
+     * @param {string[]} matched
+     * @param {UrlTypeInjector} injector
+     * @param {UrlTypeResolveContext} context
+     * @returns {Observable<T[]> | Promise<T[]> | {$promise: Promise<T[]>} | any}
+     */
+    resolveMany?: (matched: string[], injector: UrlTypeInjector, context?: UrlTypeResolveContext) =>
+        Observable<T[]> | Promise<T[]> | { $promise: Promise<T[]> } | any;
+
+    /**
+     * Determines if the data of this type can be bound to an component by
+     * the `@Input()` decorator. Parameters are bound to the input named like the parameter,
+     * and to the inputs states list for the parameter in `data.paramBindings`.
+     */
+    bindable?: boolean;
+
+    /**
+     * Names of the types this type depends on. Parameters of these types in the same
+     * state path are resolved first and passed to `resolve` in its context. States may
+     * declare further dependencies by parameter ID in `data.paramDependencies`. Objects of
+     * parameters with dependencies are not cached.
+     */
+    dependsOn?: string[];
+
+    /**
+     * Determines if transitions wait for the objects of this type. Parameters of non-blocking
+     * types do not delay the transition, their bound components get a `UrlTypePendingValue`
+     * instead, and a new one as soon as the object got resolved or failed. The router params
+     * get the resolved object as soon as it arrives. Error rules and `canActivate` do not apply
+     * to non-blocking parameters. States may override this by parameter ID in
+     * `data.paramBlocking`. Defaults to `true`.
+     */
+    blocking?: boolean;
+
+    /**
+     * Error rules that redirect the transition to another state if resolving fails. The
+     * rules of the type are checked before the rules of the module configuration.
+     */
+    errorPolicy?: UrlTypeErrorPolicy;
+
+    /**
+     * Timeout and retry policy for calling `resolve` and `resolveMany`. Options not given
+     * are taken from the policy of the module configuration.
+     */
+    resolvePolicy?: UrlTypeResolvePolicy;
+
+    /**
+     * Rule for comparing representations, used to decide if two values of the type are
+     * equal and if the matched value is canonical.
+     */
+    reprComparison?: UrlTypeReprComparison;
+
+    /**
+     * Determines if the URL gets replaced by the canonical URL after resolving, if the value
+     * matched in the URL differs from the representation of the resolved object, e.g. if an
+     * object got renamed. The replaced URL does not add a history entry, and does not
+     * resolve the object again. Defaults to `false`.
+     */
+    canonical?: boolean;
+
+    /**
+     * Determines if objects resolved while rendering on the server are transferred to the
+     * client by the transfer state of the framework, e.g. the Angular `TransferState`. Defaults to `true`.
+     */
+    transferState?: boolean;
+
+    /**
+     * Optional method that converts the given resolved object to plain JSON data before it
+     * gets transferred from the server to the client.
+     * @param {T} obj
+     * @returns {any}
+     */
+    serialize?: (obj: T) => any;
+
+    /**
+     * Optional method that restores the object of the given data transferred from the server.
+     * @param {any} data
+     * @returns {T}
+     */
+    deserialize?: (data: any) => T;
+
+    /**
+     * Optional method that decides if the transition may enter the target state with the
+     * given resolved object, e.g. if the current user has the permission to open the view.
+     * It gets called after all parameters of the transition are resolved, but not for
+     * missing values of optional parameters. Returning `false` aborts the transition,
+     * returning a target state redirects it.
+     * @param {T} obj
+     * @param {UrlTypeActivationContext} context
+     * @returns {Observable<UrlTypeActivationResult> | Promise<UrlTypeActivationResult> | UrlTypeActivationResult}
+     */
+    canActivate?: (obj: T, context: UrlTypeActivationContext) =>
+        Observable<UrlTypeActivationResult> | Promise<UrlTypeActivationResult> | UrlTypeActivationResult;
+
+}
@@ -0,0 +1,145 @@
+import { Param } from '@uirouter/core/lib/params';
+import { PathNode } from '@uirouter/core/lib/path';
+import { from, isObservable, Observable } from 'rxjs';
+
+import { UrlType, UrlTypeReprComparison } from './url-type-factory-types';
+
+
+/**
+ * Keys of the represented value, the resolve function and the object of decoded parameter values.
+ */
+export const REPR_TOKEN = '__ngx_ui_router_url_type__repr';
+export const RSLV_TOKEN = '__ngx_ui_router_url_type__rslv';
+export const OBJ_TOKEN = '__ngx_ui_router_url_type__obj';
+
+
+/**
+ * Makes an observable out of the given result of `UrlType.resolve`.
+ * @param {Observable<T> | Promise<T> | {$promise: Promise<T>} | any} resolved
+ * @returns {Observable<T>}
+ */
+export function toObservable<T>(resolved: Observable<T> | Promise<T> | { $promise: Promise<T> } | any): Observable<T> {
+    const promise = resolved && (resolved['$promise'] || resolved);
+
+    if (isObservable(resolved)) {
+        return <Observable<T>>resolved;
+    }
+
+    /*
+     * If we do not work on a promise object, we create a resolved promise of the object.
+     */
+    if (!promise ||
+        !promise['then'] ||
+        typeof promise['then'] !== 'function') {
+        return from(Promise.resolve(resolved));
+    }
+
+    return from(<Promise<T>>promise);
+}
+
+
+/**
+ * Gets the represented value of the given decoded parameter value, or the list of
+ * represented values if the parameter is an array.
+ * @param {any} value
+ * @returns {any}
+ */
+export function getRepr(value: any): any {
+    if (value === null || value === undefined) {
+        return null;
+    }
+    return Array.isArray(value) ? value.map((v) => v[REPR_TOKEN]) : value[REPR_TOKEN];
+}
+
+
+/**
+ * Gets the representation of the given decoded parameter value or resolved object of the
+ * given type as string. Representations read from the URL are strings, while the ones of
+ * resolved objects or default values may not be.
+ * @param {UrlType<any>} type
+ * @param {any} obj
+ * @returns {string}
+ */
+export function getObjectRepr(type: UrlType<any>, obj: any): string {
+    return String(obj.hasOwnProperty(REPR_TOKEN) ? obj[REPR_TOKEN] : type.represent(obj));
+}
+
+
+/**
+ * Compares the given representations by the given comparison rule.
+ * @param {string} a
+ * @param {string} b
+ * @param {UrlTypeReprComparison} comparison
+ * @returns {boolean}
+ */
+export function compareReprs(a: string, b: string, comparison: UrlTypeReprComparison = {}): boolean {
+    if (comparison.normalize) {
+        a = comparison.normalize(a);
+        b = comparison.normalize(b);
+    }
+
+    if (comparison.caseSensitive === false) {
+        a = a.toUpperCase();
+        b = b.toUpperCase();
+    }
+
+    return a === b;
+}
+
+
+/**
+ * Sets the value of the given parameter in all nodes of the given path.
+ * @param {PathNode[]} path
+ * @param {string} paramId
+ * @param {any} value
+ */
+export function setPathParamValue(path: PathNode[], paramId: string, value: any) {
+    for (const node of path) {
+        const nodeParamValues = node.paramValues || {};
+
+        if (nodeParamValues.hasOwnProperty(paramId)) {
+            nodeParamValues[paramId] = value;
+        }
+    }
+}
+
+
+/**
+ * Replaces the static default value of the given parameter by the given decoded value. There
+ * is no public API to change the default value of a registered parameter, so this is the only
+ * place writing the internals of `Param`, as set by `@uirouter/core` 6: the default value
+ * function `config.$$fn`, whose result gets cached in `_defaultValueCache` if it is flagged as
+ * `__cacheable`. Returns `false` if the internals changed and the value could not be set.
+ * @param {Param} param
+ * @param {any} value
+ * @returns {boolean}
+ */
+export function setParamDefaultValue(param: Param, value: any): boolean {
+    const config = param.config;
+
+    if (!config || typeof config.$$fn !== 'function') {
+        return false;
+    }
+
+    const getDefaultValue = () => value;
+
+    getDefaultValue['__cacheable'] = true;
+    config.$$fn = getDefaultValue;
+    param._defaultValueCache = null;
+
+    return true;
+}
+
+
+/**
+ * Gets the representations of the given resolved object or list of resolved objects of the
+ * given type as strings. Missing objects are skipped.
+ * @param {UrlType<any>} type
+ * @param {any} value
+ * @returns {string[]}
+ */
+export function getObjectReprs(type: UrlType<any>, value: any): string[] {
+    return (Array.isArray(value) ? value : [value])
+        .filter((obj) => obj !== null && obj !== undefined)
+        .map((obj) => getObjectRepr(type, obj));
+}
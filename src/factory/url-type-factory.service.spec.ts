@@ -1,13 +1,44 @@
-import { Component, DebugElement, Injector, Input } from '@angular/core';
+import {
+    ChangeDetectionStrategy,
+    Component,
+    DebugElement,
+    Inject,
+    Injectable,
+    Injector,
+    Input,
+    NgModule,
+    OnChanges,
+    SimpleChanges
+} from '@angular/core';
+import { HttpClientTestingModule, HttpTestingController } from '@angular/common/http/testing';
 import { ComponentFixture, inject, TestBed, waitForAsync } from '@angular/core/testing';
-import { By } from '@angular/platform-browser';
+import { BrowserTransferStateModule, By, makeStateKey, TransferState } from '@angular/platform-browser';
 
-import { UIRouter } from '@uirouter/core';
+import { RejectType, UIRouter } from '@uirouter/core';
 import { UIRouterModule } from '@uirouter/angular';
+import { BehaviorSubject, firstValueFrom, of, Subject, timer } from 'rxjs';
+import { map } from 'rxjs/operators';
 
 import { NgxUIRouterUrlTypeFactoryModule } from '../module';
-import { UrlType } from './url-type-factory.service';
+import { URL_TYPE_FACTORY_DEVTOOLS_HOOK } from './url-type-factory-devtools';
+import {
+    UrlType,
+    UrlTypeActivationContext,
+    UrlTypeResolveContext,
+    UrlTypeResolveEvent
+} from './url-type-factory-types';
+import { UrlTypeFactoryService } from './url-type-factory.service';
+import { UrlTypePendingValue } from './url-type-factory-pending';
+import {
+    UrlTypeFactoryRegistrationError,
+    UrlTypeFactoryResolveError,
+    UrlTypeFactoryResolveTimeoutError
+} from './url-type-factory-error';
 import { configure } from './url-type-factory';
+import { UrlTypePrefetchTrigger } from '../directives/url-type-prefetch.directive';
+import { URL_TYPE } from './url-type-factory-configuration';
+import { getUrlTypeToken } from './url-type-factory-token';
+import { createRestUrlType } from './url-type-factory-rest';
 
 
 @Component({
@@ -57,6 +88,61 @@ export class ResolveTestComponent {
 }
 
 
+@Component({
+    template: `LiveTestComponent {{ param1?.attr1 }}`,
+    changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class LiveTestComponent implements OnChanges {
+    @Input() param1: any;
+    changes: SimpleChanges[] = [];
+
+    ngOnChanges(changes: SimpleChanges) {
+        this.changes.push(changes);
+    }
+}
+
+
+@Component({
+    template: `DynamicTestComponent`
+})
+export class DynamicTestComponent {
+    @Input() param1: any;
+    changes: any[] = [];
+
+    uiOnParamsChanged(newValues: any) {
+        this.changes.push(newValues);
+    }
+}
+
+
+@Component({
+    template: `<a uiSref="prefetch" [uiParams]="{param1: param}" [uiSrefPrefetch]="trigger"></a>`
+})
+export class PrefetchTestComponent {
+    param: number = null;
+    trigger: UrlTypePrefetchTrigger = 'hover';
+}
+
+
+@Component({
+    selector: 'token-test',
+    template: `TokenTestComponent`
+})
+export class TokenTestComponent {
+    constructor(@Inject(getUrlTypeToken('SyncTest')) public project: any) {
+    }
+}
+
+
+@Component({
+    template: `<token-test></token-test>`
+})
+export class BindingTestComponent {
+    @Input() param1: any;
+    @Input() project: any;
+}
+
+
 export class SyncTestType implements UrlType<any> {
     name = 'SyncTest';
     match = /\d+/;
@@ -143,277 +229,2112 @@ export class ResolveTestType implements UrlType<any> {
 }
 
 
-export const routingConfig = {
-    states: [
-        {
-            name: 'sync',
-            url: '/sync/{param1:SyncTest}',
-            component: SyncTestComponent,
-        },
-        {
-            name: 'async',
-            url: '/async/{param1:AsyncTest}',
-            component: AsyncTestComponent,
-        },
-        {
-            name: 'sync-async',
-            url: '/sync-async/{param1:SyncTest}/{param2:AsyncTest}',
-            component: SyncAsyncTestComponent,
-        },
-        {
-            name: 'match',
-            url: '/match/{param1:MatchTest}',
-            component: MatchTestComponent,
-        },
+export class CacheTestType implements UrlType<any> {
+    name = 'CacheTest';
+    match = /\d+/;
+    bindable = true;
+
+    represent(obj: any): string {
+        return String(obj.pk);
+    }
+
+    resolve(matched: string, _injector: Injector) {
+        CacheTestType['resolveCount']++;
+
+        return Promise.resolve({
+            'pk': Number(matched),
+            'attr1': 'cache-value1',
+        });
+    }
+
+}
+
+
+export class CancelTestType implements UrlType<any> {
+    name = 'CancelTest';
+    match = /\d+/;
+    bindable = true;
+
+    represent(obj: any): string {
+        return String(obj.pk);
+    }
+
+    resolve(_matched: string, _injector: Injector, context: UrlTypeResolveContext) {
+        return new Promise((_resolve, reject) => {
+            context.signal.addEventListener('abort', () => {
+                CancelTestType['aborted'] = true;
+                reject(new Error('Aborted'));
+            });
+
+            CancelTestType['resolving']();
+        });
+    }
+
+}
+
+
+export class ObservableTestType implements UrlType<any> {
+    name = 'ObservableTest';
+    match = /\d+/;
+    bindable = true;
+
+    represent(obj: any): string {
+        return String(obj.pk);
+    }
+
+    resolve(_matched: string, _injector: Injector) {
+        return timer(0).pipe(
+            map(() => ({
+                'pk': 1,
+                'attr1': 'observable-value1',
+                'attr2': 'observable-value2',
+            }))
+        );
+    }
+
+}
+
+
+export class LiveTestType implements UrlType<any> {
+    name = 'LiveTest';
+    match = /\d+/;
+    bindable = true;
+
+    represent(obj: any): string {
+        return String(obj.pk);
+    }
+
+    resolve(_matched: string, _injector: Injector) {
+        return LiveTestType['subject'].asObservable();
+    }
+
+}
+
+
+export class DynamicTestType implements UrlType<any> {
+    name = 'DynamicTest';
+    match = /\d+/;
+    bindable = true;
+
+    represent(obj: any): string {
+        return String(obj.pk);
+    }
+
+    resolve(matched: string, _injector: Injector) {
+        DynamicTestType['resolveCount']++;
+
+        if (DynamicTestType['status']) {
+            return Promise.reject({
+                status: DynamicTestType['status'],
+            });
+        }
+
+        return Promise.resolve({
+            'pk': Number(matched),
+            'attr1': `dynamic-value${matched}`,
+        });
+    }
+
+}
+
+
+export class PendingTestType implements UrlType<any> {
+    name = 'PendingTest';
+    match = /\d+/;
+    bindable = true;
+    blocking = false;
+
+    represent(obj: any): string {
+        return String(obj.pk);
+    }
+
+    resolve(_matched: string, _injector: Injector) {
+        return PendingTestType['subject'].asObservable();
+    }
+
+}
+
+
+export class ErrorTestType implements UrlType<any> {
+    name = 'ErrorTest';
+    match = /\d+/;
+    bindable = true;
+    errorPolicy = [
         {
-            name: 'resolve',
-            url: '/resolve/{param1:ResolveTest}',
-            component: ResolveTestComponent,
+            when: 404,
+            redirectTo: 'not-found',
+            returnUrlParam: 'returnTo',
         },
-    ],
-    useHash: true,
-    config: configure,
-};
+    ];
+
+    represent(obj: any): string {
+        return String(obj.pk);
+    }
+
+    resolve(matched: string, _injector: Injector) {
+        return Promise.reject({
+            status: Number(matched),
+        });
+    }
+
+}
+
+
+export class DependencyTestType implements UrlType<any> {
+    name = 'DependencyTest';
+    match = /\d+/;
+    bindable = true;
+    dependsOn = ['AsyncTest'];
+
+    represent(obj: any): string {
+        return String(obj.pk);
+    }
+
+    resolve(matched: string, _injector: Injector, context: UrlTypeResolveContext) {
+        return {
+            'pk': Number(matched),
+            'params': context.params,
+        };
+    }
+
+}
+
+
+export class ContextTestType implements UrlType<any> {
+    name = 'ContextTest';
+    match = /\d+/;
+    bindable = true;
+
+    represent(obj: any): string {
+        return String(obj.pk);
+    }
+
+    resolve(matched: string, _injector: Injector, context: UrlTypeResolveContext) {
+        return {
+            'pk': Number(matched),
+            'params': context.params,
+        };
+    }
+
+}
+
+
+export class ManyTestType implements UrlType<any> {
+    name = 'ManyTest';
+    match = /\d+/;
+    bindable = true;
+
+    represent(obj: any): string {
+        return String(obj.pk);
+    }
+
+    resolve(matched: string, _injector: Injector) {
+        ManyTestType['resolved'].push(matched);
+
+        return {
+            'pk': Number(matched),
+        };
+    }
+
+    resolveMany(matched: string[], _injector: Injector) {
+        ManyTestType['resolvedMany'].push(matched);
+
+        return Promise.resolve(matched.map((m) => ({
+            'pk': Number(m),
+        })));
+    }
+
+}
+
+
+export class PermissionTestType implements UrlType<any> {
+    name = 'PermissionTest';
+    match = /\d+/;
+    bindable = true;
+
+    represent(obj: any): string {
+        return String(obj.pk);
+    }
+
+    resolve(matched: string, _injector: Injector) {
+        return {
+            'pk': Number(matched),
+            'access': ['read', 'none', 'redirect'][Number(matched) - 1],
+        };
+    }
+
+    canActivate(obj: any, context: UrlTypeActivationContext) {
+        if (obj.access === 'redirect') {
+            return context.transition.router.stateService.target('forbidden');
+        }
+
+        return of(obj.access === 'read');
+    }
+
+}
+
+
+export class RetryTestType implements UrlType<any> {
+    name = 'RetryTest';
+    match = /\d+/;
+    bindable = true;
+    resolvePolicy = {
+        retries: 2,
+        backoff: 1,
+        retryIf: (error) => error.status >= 500,
+    };
+
+    represent(obj: any): string {
+        return String(obj.pk);
+    }
+
+    resolve(matched: string, _injector: Injector) {
+        RetryTestType['attempts']++;
+
+        if (matched === '404') {
+            return Promise.reject({status: 404});
+        } else if (RetryTestType['attempts'] < 3) {
+            return Promise.reject({status: 503});
+        }
+
+        return Promise.resolve({
+            'pk': Number(matched),
+        });
+    }
+
+}
+
+
+export class TimeoutTestType implements UrlType<any> {
+    name = 'TimeoutTest';
+    match = /\d+/;
+    bindable = true;
+    resolvePolicy = {
+        timeout: 10,
+    };
+
+    represent(obj: any): string {
+        return String(obj.pk);
+    }
+
+    resolve(matched: string, _injector: Injector) {
+        if (TimeoutTestType['responding']) {
+            return Promise.resolve({
+                'pk': Number(matched),
+            });
+        }
+
+        return new Promise(() => null);
+    }
+
+}
+
+
+export class PrefetchTestType implements UrlType<any> {
+    name = 'PrefetchTest';
+    match = /\d+/;
+    bindable = true;
+
+    represent(obj: any): string {
+        return String(obj.pk);
+    }
+
+    resolve(matched: string, _injector: Injector) {
+        PrefetchTestType['resolved'].push(String(matched));
+
+        return Promise.resolve({
+            'pk': Number(matched),
+        });
+    }
+
+}
+
+
+export class TransferTestType implements UrlType<any> {
+    name = 'TransferTest';
+    match = /\d+/;
+    bindable = true;
+    transferState = true;
+
+    represent(obj: any): string {
+        return String(obj.pk);
+    }
+
+    resolve(matched: string, _injector: Injector) {
+        TransferTestType['resolved'].push(String(matched));
+
+        return Promise.resolve({
+            'pk': Number(matched),
+        });
+    }
+
+    serialize(obj: any) {
+        return {
+            'id': obj.pk,
+        };
+    }
+
+    deserialize(data: any) {
+        return {
+            'pk': data.id,
+            'transferred': true,
+        };
+    }
+
+}
+
+
+export class CanonicalTestType implements UrlType<any> {
+    name = 'CanonicalTest';
+    match = /\d+[\w-]*/;
+    bindable = true;
+    canonical = true;
+    reprComparison = {
+        caseSensitive: false,
+    };
+
+    represent(obj: any): string {
+        return `${obj.pk}-${obj.slug}`;
+    }
+
+    resolve(matched: string, _injector: Injector) {
+        CanonicalTestType['resolved'].push(String(matched));
+
+        return Promise.resolve({
+            'pk': parseInt(matched, 10),
+            'slug': 'my-project',
+        });
+    }
+
+}
+
+
+@Injectable()
+export class ProjectTestService {
+
+    get(pk: number) {
+        return {
+            'pk': pk,
+            'source': 'service',
+        };
+    }
+
+}
+
+
+@Injectable()
+export class InjectedTestType implements UrlType<any> {
+    name = 'InjectedTest';
+    match = /\d+/;
+    bindable = true;
+
+    constructor(protected _projects: ProjectTestService) {
+    }
+
+    represent(obj: any): string {
+        return String(obj.pk);
+    }
+
+    resolve(matched: string, _injector: Injector) {
+        return this._projects.get(Number(matched));
+    }
+
+}
+
+
+@Injectable()
+export class LazyTestService {
+
+    get(pk: number) {
+        return {
+            'pk': pk,
+            'source': 'lazy',
+        };
+    }
+
+}
+
+
+export class LazyTestType implements UrlType<any> {
+    name = 'LazyTest';
+    match = /\d+/;
+    bindable = true;
+
+    represent(obj: any): string {
+        return String(obj.pk);
+    }
+
+    resolve(matched: string, injector: Injector) {
+        return injector.get(LazyTestService).get(Number(matched));
+    }
+
+}
+
+
+@NgModule({
+    imports: [
+        UIRouterModule.forChild({
+            states: [
+                {
+                    name: 'lazy',
+                    url: '/lazy/{param1:LazyTest}',
+                },
+            ],
+        }),
+        NgxUIRouterUrlTypeFactoryModule.forChild({
+            types: [
+                LazyTestType,
+            ],
+        }),
+    ],
+    providers: [
+        LazyTestService,
+    ],
+})
+export class LazyTestModule {
+}
+
+
+@NgModule({
+    imports: [
+        UIRouterModule.forChild({
+            states: [
+                {
+                    name: 'lazy-duplicate',
+                    url: '/lazy-duplicate/{param1:SyncTest}',
+                },
+            ],
+        }),
+        NgxUIRouterUrlTypeFactoryModule.forChild({
+            types: [
+                SyncTestType,
+            ],
+        }),
+    ],
+})
+export class LazyDuplicateTestModule {
+}
+
+
+export const RestTestType = createRestUrlType<any>({
+    name: 'RestTest',
+    match: /\d+/,
+    endpoint: '/api/projects/:id/',
+    key: 'pk',
+    map: (response) => Object.assign({'mapped': true}, response),
+    headers: {
+        'Authorization': 'Token test',
+    },
+});
+
+
+export const RestDependencyTestType = createRestUrlType<any>({
+    name: 'RestDependencyTest',
+    match: /\d+/,
+    endpoint: (matched, params) => `/api/projects/${params.param2.pk}/tasks/${matched}/`,
+    key: 'pk',
+    map: (response, _matched, params) => Object.assign({'project': params.param2.pk}, response),
+    headers: (_injector, params) => ({
+        'X-Project': String(params.param2.pk),
+    }),
+    dependsOn: ['SyncTest'],
+});
+
+
+export const routingConfig = {
+    states: [
+        {
+            name: 'sync',
+            url: '/sync/{param1:SyncTest}',
+            component: SyncTestComponent,
+        },
+        {
+            name: 'async',
+            url: '/async/{param1:AsyncTest}',
+            component: AsyncTestComponent,
+        },
+        {
+            name: 'sync-async',
+            url: '/sync-async/{param1:SyncTest}/{param2:AsyncTest}',
+            component: SyncAsyncTestComponent,
+        },
+        {
+            name: 'match',
+            url: '/match/{param1:MatchTest}',
+            component: MatchTestComponent,
+        },
+        {
+            name: 'resolve',
+            url: '/resolve/{param1:ResolveTest}',
+            component: ResolveTestComponent,
+        },
+        {
+            name: 'cache',
+            url: '/cache/{param1:CacheTest}',
+            component: ResolveTestComponent,
+        },
+        {
+            name: 'cache-other',
+            url: '/cache-other/{param1:CacheTest}',
+            component: ResolveTestComponent,
+        },
+        {
+            name: 'observable',
+            url: '/observable/{param1:ObservableTest}',
+            component: SyncTestComponent,
+        },
+        {
+            name: 'live',
+            url: '/live/{param1:LiveTest}',
+            component: LiveTestComponent,
+        },
+        {
+            name: 'dynamic',
+            url: '/dynamic/{param1:DynamicTest}',
+            component: DynamicTestComponent,
+            params: {
+                param1: {
+                    dynamic: true,
+                },
+            },
+        },
+        {
+            name: 'pending',
+            url: '/pending/{param1:PendingTest}',
+            component: LiveTestComponent,
+        },
+        {
+            name: 'pending-state',
+            url: '/pending-state/{param1:LiveTest}',
+            component: LiveTestComponent,
+            data: {
+                paramBlocking: {
+                    param1: false,
+                },
+            },
+        },
+        {
+            name: 'error',
+            url: '/error/{param1:ErrorTest}',
+            component: ResolveTestComponent,
+        },
+        {
+            name: 'not-found',
+            url: '/not-found?returnTo',
+            component: ResolveTestComponent,
+        },
+        {
+            name: 'forbidden',
+            url: '/forbidden',
+            component: ResolveTestComponent,
+        },
+        {
+            name: 'type-dependency',
+            url: '/type-dependency/{param1:DependencyTest}/{param2:AsyncTest}',
+            component: SyncAsyncTestComponent,
+        },
+        {
+            name: 'cache-dependency',
+            url: '/cache-dependency/{org:int}/{param1:DependencyTest}',
+            component: ResolveTestComponent,
+            data: {
+                paramDependencies: {
+                    param1: ['org'],
+                },
+            },
+        },
+        {
+            name: 'state-dependency',
+            url: '/state-dependency/{param1:SyncTest}/{param2:ContextTest}',
+            component: SyncAsyncTestComponent,
+            data: {
+                paramDependencies: {
+                    param2: ['param1'],
+                },
+            },
+        },
+        {
+            name: 'many',
+            url: '/many?{param1:ManyTest}',
+            component: SyncTestComponent,
+            params: {
+                param1: {
+                    array: true,
+                },
+            },
+        },
+        {
+            name: 'sync-many',
+            url: '/sync-many?{param1:SyncTest}',
+            component: SyncTestComponent,
+            params: {
+                param1: {
+                    array: true,
+                },
+            },
+        },
+        {
+            name: 'optional',
+            url: '/optional/{param1:SyncTest}',
+            component: SyncTestComponent,
+            params: {
+                param1: {
+                    value: null,
+                    squash: true,
+                },
+            },
+        },
+        {
+            name: 'query',
+            url: '/query?{param1:SyncTest}',
+            component: SyncTestComponent,
+        },
+        {
+            name: 'default',
+            url: '/default/{param1:ContextTest}',
+            component: SyncTestComponent,
+            params: {
+                param1: {
+                    value: 5,
+                    squash: true,
+                },
+            },
+        },
+        {
+            name: 'permission',
+            url: '/permission/{param1:PermissionTest}',
+            component: SyncTestComponent,
+        },
+        {
+            name: 'rest',
+            url: '/rest/{param1:RestTest}',
+            component: SyncTestComponent,
+        },
+        {
+            name: 'rest-dependency',
+            url: '/rest-dependency/{param2:SyncTest}/{param1:RestDependencyTest}',
+            component: SyncTestComponent,
+        },
+        {
+            name: 'injected',
+            url: '/injected/{param1:InjectedTest}',
+            component: SyncTestComponent,
+        },
+        {
+            name: 'lazy.**',
+            url: '/lazy',
+            loadChildren: () => Promise.resolve(LazyTestModule),
+        },
+        {
+            name: 'lazy-duplicate.**',
+            url: '/lazy-duplicate',
+            loadChildren: () => Promise.resolve(LazyDuplicateTestModule),
+        },
+        {
+            name: 'retry',
+            url: '/retry/{param1:RetryTest}',
+            component: ResolveTestComponent,
+        },
+        {
+            name: 'timeout',
+            url: '/timeout/{param1:TimeoutTest}',
+            component: ResolveTestComponent,
+        },
+        {
+            name: 'prefetch',
+            url: '/prefetch/{param1:PrefetchTest}',
+            component: ResolveTestComponent,
+        },
+        {
+            name: 'transfer',
+            url: '/transfer/{param1:TransferTest}',
+            component: ResolveTestComponent,
+        },
+        {
+            name: 'binding',
+            url: '/binding/{param1:SyncTest}',
+            component: BindingTestComponent,
+            data: {
+                paramBindings: {
+                    param1: 'project',
+                },
+            },
+        },
+        {
+            name: 'canonical',
+            url: '/canonical/{param1:CanonicalTest}',
+            component: ResolveTestComponent,
+        },
+        {
+            name: 'cancel',
+            url: '/cancel/{param1:CancelTest}',
+            component: ResolveTestComponent,
+        },
+    ],
+    useHash: true,
+    config: configure,
+};
+
+
+describe('UrlTypeFactoryService', () => {
+    let
+        fixture: ComponentFixture<AppComponent> = null,
+        router: UIRouter = null,
+        service: UrlTypeFactoryService = null,
+        appComponent: DebugElement = null;
+
+    beforeEach(
+        waitForAsync(() => {
+            TestBed.configureTestingModule({
+                declarations: [
+                    AppComponent,
+                    SyncTestComponent,
+                    AsyncTestComponent,
+                    SyncAsyncTestComponent,
+                    MatchTestComponent,
+                    ResolveTestComponent,
+                    LiveTestComponent,
+                    DynamicTestComponent,
+                    PrefetchTestComponent,
+                    BindingTestComponent,
+                    TokenTestComponent,
+                ],
+                providers: [
+                    ProjectTestService,
+                    {
+                        provide: URL_TYPE,
+                        useClass: InjectedTestType,
+                        multi: true,
+                    },
+                ],
+                imports: [
+                    BrowserTransferStateModule,
+                    HttpClientTestingModule,
+                    UIRouterModule.forRoot(routingConfig),
+                    NgxUIRouterUrlTypeFactoryModule.forRoot({
+                        types: [
+                            SyncTestType,
+                            AsyncTestType,
+                            MatchTestType,
+                            ResolveTestType,
+                            CacheTestType,
+                            CancelTestType,
+                            ObservableTestType,
+                            LiveTestType,
+                            DynamicTestType,
+                            PendingTestType,
+                            ErrorTestType,
+                            DependencyTestType,
+                            ContextTestType,
+                            ManyTestType,
+                            PermissionTestType,
+                            RestTestType,
+                            RestDependencyTestType,
+                            RetryTestType,
+                            TimeoutTestType,
+                            PrefetchTestType,
+                            TransferTestType,
+                            CanonicalTestType,
+                        ],
+                        cache: {
+                            CacheTest: {
+                                maxSize: 10,
+                            },
+                            DependencyTest: {
+                                maxSize: 10,
+                            },
+                        },
+                        errorPolicy: [
+                            {
+                                when: (error) => error.status === 403,
+                                redirectTo: 'forbidden',
+                            },
+                        ],
+                    }),
+                ],
+            });
+
+            fixture = TestBed.createComponent(AppComponent);
+            fixture.detectChanges();
+
+            appComponent = fixture.debugElement;
+
+            router = fixture.debugElement.injector.get(UIRouter);
+            service = fixture.debugElement.injector.get(UrlTypeFactoryService);
+        })
+    );
+
+    afterEach(() => {
+        /*
+         * The hash is shared by all tests, reset it so the router of the next test does not
+         * start an initial transition to the URL the previous test navigated to.
+         */
+        window.history.replaceState(null, '', window.location.pathname);
+    });
+
+    it('Does resolve synchronous url types',
+        waitForAsync(
+            inject([], () => {
+                router.stateService.go('sync', {param1: 1}).then(() => {
+                    const
+                        params = router.globals.params;
+
+                    expect(params.param1.pk).toBe(1);
+                    expect(params.param1.attr1).toBe('sync-value1');
+                    expect(params.param1.attr2).toBe('sync-value2');
+                });
+            })
+        )
+    );
+
+    it('Does resolve asynchronous url types',
+        waitForAsync(
+            inject([], () => {
+                router.stateService.go('async', {param1: 1}).then(() => {
+                    const
+                        params = router.globals.params;
+
+                    expect(params.param1.pk).toBe(1);
+                    expect(params.param1.attr1).toBe('async-value1');
+                    expect(params.param1.attr2).toBe('async-value2');
+                });
+            })
+        )
+    );
+
+    it('Does resolve synchronous and asynchronous url types',
+        waitForAsync(
+            inject([], () => {
+                router.stateService.go('sync-async', {param1: 1, param2: 1}).then(() => {
+                    const
+                        params = router.globals.params;
+
+                    expect(params.param1.pk).toBe(1);
+                    expect(params.param1.attr1).toBe('sync-value1');
+                    expect(params.param1.attr2).toBe('sync-value2');
+
+                    expect(params.param2.pk).toBe(1);
+                    expect(params.param2.attr1).toBe('async-value1');
+                    expect(params.param2.attr2).toBe('async-value2');
+                });
+            })
+        )
+    );
+
+    it('Does bind synchronous url types',
+        waitForAsync(
+            inject([], () => {
+                router.stateService.go('sync', {param1: 1}).then(() => {
+                    const
+                        component = appComponent.query(By.directive(SyncTestComponent)).componentInstance;
+
+                    expect(component.param1.pk).toBe(1);
+                    expect(component.param1.attr1).toBe('sync-value1');
+                    expect(component.param1.attr2).toBe('sync-value2');
+                });
+            })
+        )
+    );
+
+    it('Does bind asynchronous url types',
+        waitForAsync(
+            inject([], () => {
+                router.stateService.go('async', {param1: 1}).then(() => {
+                    const
+                        component = appComponent.query(By.directive(AsyncTestComponent)).componentInstance;
+
+                    expect(component.param1.pk).toBe(1);
+                    expect(component.param1.attr1).toBe('async-value1');
+                    expect(component.param1.attr2).toBe('async-value2');
+                });
+            })
+        )
+    );
+
+    it('Does bind synchronous and asynchronous url types',
+        waitForAsync(
+            inject([], () => {
+                router.stateService.go('sync-async', {param1: 1, param2: 1}).then(() => {
+                    const
+                        component = appComponent.query(By.directive(SyncAsyncTestComponent)).componentInstance;
+
+                    expect(component.param1.pk).toBe(1);
+                    expect(component.param1.attr1).toBe('sync-value1');
+                    expect(component.param1.attr2).toBe('sync-value2');
+
+                    expect(component.param2.pk).toBe(1);
+                    expect(component.param2.attr1).toBe('async-value1');
+                    expect(component.param2.attr2).toBe('async-value2');
+                });
+            })
+        )
+    );
+
+    it('Does represent primitive in url',
+        waitForAsync(
+            inject([], () => {
+                const
+                    url = router.stateService.href('sync-async', {param1: 1, param2: 2});
+
+                expect(url).toBe('#/sync-async/1/2');
+            })
+        )
+    );
+
+    it('Does represent objects in url',
+        waitForAsync(
+            inject([], () => {
+                const
+                    url = router.stateService.href('sync-async', {
+                        param1: {
+                            pk: 1,
+                        },
+                        param2: {
+                            pk: 2,
+                        }
+                    });
+
+                expect(url).toBe('#/sync-async/1/2');
+            })
+        )
+    );
+
+    it('Does get url if param matches the type pattern',
+        waitForAsync(
+            inject([], () => {
+                const
+                    url = router.stateService.href('match', {param1: 'a-1'});
+
+                expect(url).toBe('#/match/a-1');
+            })
+        )
+    );
+
+    it('Does not get url if param does not match the type pattern',
+        waitForAsync(
+            inject([], () => {
+                const
+                    url = router.stateService.href('match', {param1: 'b-1'});
+
+                expect(url).toBe(null);
+            })
+        )
+    );
+
+    it('Does not call resolve for creating the url from primitive',
+        waitForAsync(
+            inject([], () => {
+                ResolveTestType['resolved'] = false;
+
+                router.stateService.href('resolve', {param1: 1});
+
+                expect(ResolveTestType['resolved']).toBe(false);
+            })
+        )
+    );
+
+    it('Does not call resolve for creating the url from object',
+        waitForAsync(
+            inject([], () => {
+                ResolveTestType['resolved'] = false;
+
+                router.stateService.href('resolve', {param1: {
+                    pk: 1,
+                }});
+
+                expect(ResolveTestType['resolved']).toBe(false);
+            })
+        )
+    );
+
+    it('Does call resolve for changing state from primitive',
+        waitForAsync(
+            inject([], () => {
+                ResolveTestType['resolved'] = false;
+
+                router.stateService.go('resolve', {param1: 1}).then(() => {
+                    expect(ResolveTestType['resolved']).toBe(true);
+                });
+            })
+        )
+    );
+
+    it('Does not call resolve for changing state from object',
+        waitForAsync(
+            inject([], () => {
+                ResolveTestType['resolved'] = false;
+
+                router.stateService.go('resolve', {param1: {
+                    pk: 1,
+                }}).then(() => {
+                    expect(ResolveTestType['resolved']).toBe(false);
+                });
+            })
+        )
+    );
+
+    it('Does reuse cached objects for changing state',
+        waitForAsync(
+            inject([], () => {
+                CacheTestType['resolveCount'] = 0;
+
+                router.stateService.go('cache', {param1: 1})
+                    .then(() => router.stateService.go('cache-other', {param1: 1}))
+                    .then(() => {
+                        const
+                            params = router.globals.params;
+
+                        expect(CacheTestType['resolveCount']).toBe(1);
+                        expect(params.param1.pk).toBe(1);
+                        expect(params.param1.attr1).toBe('cache-value1');
+                    });
+            })
+        )
+    );
+
+    it('Does call resolve again after invalidating cached objects',
+        waitForAsync(
+            inject([], () => {
+                CacheTestType['resolveCount'] = 0;
+
+                router.stateService.go('cache', {param1: 2})
+                    .then(() => service.invalidate('CacheTest', router.globals.params.param1))
+                    .then(() => router.stateService.go('cache-other', {param1: 2}))
+                    .then(() => {
+                        expect(CacheTestType['resolveCount']).toBe(2);
+                    });
+            })
+        )
+    );
+
+    it('Does call resolve again after clearing the cache',
+        waitForAsync(
+            inject([], () => {
+                CacheTestType['resolveCount'] = 0;
+
+                router.stateService.go('cache', {param1: 3})
+                    .then(() => service.clear())
+                    .then(() => router.stateService.go('cache-other', {param1: 3}))
+                    .then(() => {
+                        expect(CacheTestType['resolveCount']).toBe(2);
+                    });
+            })
+        )
+    );
+
+    it('Does cancel resolving superseded transitions',
+        waitForAsync(
+            inject([], () => {
+                CancelTestType['aborted'] = false;
+                CancelTestType['resolving'] = () => {
+                    router.stateService.go('sync', {param1: 1}).then(() => {
+                        expect(CancelTestType['aborted']).toBe(true);
+                        expect(router.globals.current.name).toBe('sync');
+                    });
+                };
+
+                router.stateService.go('cancel', {param1: 1}).then(() => {
+                    fail('Transition should not succeed');
+                }).catch((error) => {
+                    expect(error instanceof UrlTypeFactoryResolveError).toBe(false);
+                });
+            })
+        )
+    );
+
+    it('Does resolve observable url types',
+        waitForAsync(
+            inject([], () => {
+                router.stateService.go('observable', {param1: 1}).then(() => {
+                    const
+                        params = router.globals.params,
+                        component = appComponent.query(By.directive(SyncTestComponent)).componentInstance;
+
+                    expect(params.param1.attr1).toBe('observable-value1');
+                    expect(component.param1.attr1).toBe('observable-value1');
+                });
+            })
+        )
+    );
+
+    it('Does update parameters and bindings of live url types',
+        waitForAsync(
+            inject([], () => {
+                const
+                    subject = new BehaviorSubject<any>({pk: 1, attr1: 'live-value1'});
+
+                LiveTestType['subject'] = subject;
+
+                router.stateService.go('live', {param1: 1}).then(() => {
+                    const
+                        component = appComponent.query(By.directive(LiveTestComponent)).componentInstance;
+
+                    expect(component.param1.attr1).toBe('live-value1');
+
+                    subject.next({pk: 1, attr1: 'live-value2'});
+                    fixture.detectChanges();
+
+                    expect(router.globals.params.param1.attr1).toBe('live-value2');
+                    expect(component.param1.attr1).toBe('live-value2');
+                    expect(component.changes[component.changes.length - 1].param1.currentValue.attr1).toBe('live-value2');
+                    expect(appComponent.nativeElement.textContent).toContain('LiveTestComponent live-value2');
+                });
+            })
+        )
+    );
+
+    it('Does stop updating live url types after exiting the state',
+        waitForAsync(
+            inject([], () => {
+                const
+                    subject = new BehaviorSubject<any>({pk: 1, attr1: 'live-value1'});
+
+                LiveTestType['subject'] = subject;
+
+                router.stateService.go('live', {param1: 1})
+                    .then(() => router.stateService.go('sync', {param1: 1}))
+                    .then(() => {
+                        expect(subject.observed).toBe(false);
+                    });
+            })
+        )
+    );
+
+    it('Does resolve changed dynamic url types without reloading the view',
+        waitForAsync(
+            inject([], () => {
+                let
+                    component: DynamicTestComponent = null;
+
+                DynamicTestType['resolveCount'] = 0;
+
+                router.stateService.go('dynamic', {param1: 1})
+                    .then(() => {
+                        component = appComponent.query(By.directive(DynamicTestComponent)).componentInstance;
+
+                        expect(component.param1.attr1).toBe('dynamic-value1');
+
+                        return router.stateService.go('dynamic', {param1: 2});
+                    })
+                    .then(() => {
+                        expect(appComponent.query(By.directive(DynamicTestComponent)).componentInstance).toBe(component);
+                        expect(DynamicTestType['resolveCount']).toBe(2);
+                        expect(router.globals.params.param1.attr1).toBe('dynamic-value2');
+                        expect(component.param1.attr1).toBe('dynamic-value2');
+                        expect(component.changes.length).toBe(1);
+                        expect(component.changes[0].param1.attr1).toBe('dynamic-value2');
+
+                        return router.stateService.go('dynamic', {param1: 3});
+                    })
+                    .then(() => {
+                        expect(component.param1.attr1).toBe('dynamic-value3');
+                        expect(component.changes[1].param1.attr1).toBe('dynamic-value3');
+                    });
+            })
+        )
+    );
+
+    it('Does refresh resolved url types without reloading the view',
+        waitForAsync(
+            inject([], () => {
+                let
+                    component: DynamicTestComponent = null,
+                    previous: any = null;
+
+                router.stateService.go('dynamic', {param1: 1})
+                    .then(() => {
+                        component = appComponent.query(By.directive(DynamicTestComponent)).componentInstance;
+                        previous = component.param1;
+
+                        DynamicTestType['resolveCount'] = 0;
+
+                        return service.refresh('param1');
+                    })
+                    .then((values) => {
+                        expect(DynamicTestType['resolveCount']).toBe(1);
+                        expect(values.param1.attr1).toBe('dynamic-value1');
+                        expect(values.param1).not.toBe(previous);
+                        expect(router.globals.params.param1).toBe(values.param1);
+                        expect(appComponent.query(By.directive(DynamicTestComponent)).componentInstance).toBe(component);
+                        expect(component.param1).toBe(values.param1);
+                    });
+            })
+        )
+    );
+
+    it('Does refresh resolved url types by type and representation bypassing the cache',
+        waitForAsync(
+            inject([], () => {
+                CacheTestType['resolveCount'] = 0;
+
+                router.stateService.go('cache', {param1: 5})
+                    .then(() => service.refreshType('CacheTest', 6))
+                    .then((values) => {
+                        expect(values).toEqual({});
+                        expect(CacheTestType['resolveCount']).toBe(1);
+
+                        return service.refreshType('CacheTest', {pk: 5});
+                    })
+                    .then((values) => {
+                        expect(values.param1.pk).toBe(5);
+                        expect(CacheTestType['resolveCount']).toBe(2);
+                        expect(router.globals.params.param1).toBe(values.param1);
+                    });
+            })
+        )
+    );
+
+    it('Does keep the resolved url types if refreshing fails',
+        waitForAsync(
+            inject([], () => {
+                let
+                    previous: any = null;
+
+                router.stateService.go('dynamic', {param1: 1})
+                    .then(() => {
+                        previous = router.globals.params.param1;
+
+                        DynamicTestType['status'] = 500;
+
+                        return service.refresh();
+                    })
+                    .then(() => {
+                        fail('Refresh should not succeed');
+                    }, (error) => {
+                        DynamicTestType['status'] = null;
+
+                        expect(error instanceof UrlTypeFactoryResolveError).toBe(true);
+                        expect(error.paramId).toBe('param1');
+                        expect(error.status).toBe(500);
+                        expect(router.globals.params.param1).toBe(previous);
+                    });
+            })
+        )
+    );
+
+    it('Does reject refreshing url types exceeding the timeout of the resolve policy',
+        waitForAsync(
+            inject([], () => {
+                TimeoutTestType['responding'] = true;
+
+                router.stateService.go('timeout', {param1: 1})
+                    .then(() => {
+                        TimeoutTestType['responding'] = false;
+
+                        return service.refresh('param1');
+                    })
+                    .then(() => {
+                        fail('Refresh should not succeed');
+                    }, (error) => {
+                        expect(error instanceof UrlTypeFactoryResolveTimeoutError).toBe(true);
+                        expect(error.paramId).toBe('param1');
+                        expect(error.timeout).toBe(10);
+                    });
+            })
+        )
+    );
+
+    it('Does not wait for non-blocking url types',
+        waitForAsync(
+            inject([], () => {
+                const
+                    subject = new Subject<any>();
+
+                PendingTestType['subject'] = subject;
+
+                router.stateService.go('pending', {param1: 1}).then(() => {
+                    const
+                        component = appComponent.query(By.directive(LiveTestComponent)).componentInstance;
+
+                    expect(component.param1 instanceof UrlTypePendingValue).toBe(true);
+                    expect(component.param1.status).toBe('pending');
+
+                    subject.next({pk: 1, attr1: 'pending-value1'});
+
+                    return component.param1.promise.then(() => {
+                        expect(router.globals.params.param1.attr1).toBe('pending-value1');
+                        expect(component.param1.status).toBe('resolved');
+                        expect(component.param1.value.attr1).toBe('pending-value1');
+                    });
+                });
+            })
+        )
+    );
+
+    it('Does bind failures of non-blocking url types',
+        waitForAsync(
+            inject([], () => {
+                const
+                    subject = new Subject<any>();
+
+                PendingTestType['subject'] = subject;
+
+                router.stateService.go('pending', {param1: 1}).then(() => {
+                    const
+                        component = appComponent.query(By.directive(LiveTestComponent)).componentInstance;
+
+                    subject.error({status: 500});
+
+                    return component.param1.promise.catch(() => {
+                        expect(router.globals.current.name).toBe('pending');
+                        expect(component.param1.status).toBe('rejected');
+                        expect(component.param1.error instanceof UrlTypeFactoryResolveError).toBe(true);
+                        expect(component.param1.error.status).toBe(500);
+                    });
+                });
+            })
+        )
+    );
+
+    it('Does cancel non-blocking url types of exited states',
+        waitForAsync(
+            inject([], () => {
+                const
+                    subject = new Subject<any>(),
+                    events: UrlTypeResolveEvent[] = [];
+
+                PendingTestType['subject'] = subject;
+
+                service.events$.subscribe((event) => events.push(event));
+
+                router.stateService.go('sync', {param1: 1})
+                    .then(() => router.stateService.go('pending', {param1: 1}))
+                    .then(() => router.stateService.go('sync', {param1: 2}))
+                    .then(() => firstValueFrom(service.isResolving$))
+                    .then((resolving) => {
+                        const
+                            pendingEvents = events.filter((event) => event.typeName === 'PendingTest');
+
+                        expect(resolving).toBe(false);
+                        expect(pendingEvents.map((event) => event.type)).toEqual(['resolveStart', 'resolveCancelled']);
+                        expect(subject.observed).toBe(false);
+                    });
+            })
+        )
+    );
+
+    it('Does not wait for url types of non-blocking state params',
+        waitForAsync(
+            inject([], () => {
+                const
+                    subject = new Subject<any>();
+
+                LiveTestType['subject'] = subject;
+
+                router.stateService.go('pending-state', {param1: 1}).then(() => {
+                    const
+                        component = appComponent.query(By.directive(LiveTestComponent)).componentInstance;
+
+                    expect(component.param1.status).toBe('pending');
+
+                    subject.next({pk: 1, attr1: 'pending-value1'});
+                    subject.next({pk: 1, attr1: 'pending-value2'});
+
+                    return component.param1.promise.then(() => {
+                        expect(router.globals.params.param1.attr1).toBe('pending-value2');
+                        expect(component.param1.status).toBe('resolved');
+                        expect(component.param1.value.attr1).toBe('pending-value2');
+                    });
+                });
+            })
+        )
+    );
+
+    it('Does redirect failed url types by the error policy of the type',
+        waitForAsync(
+            inject([], () => {
+                router.stateService.go('error', {param1: 404}).then(() => {
+                    expect(router.globals.current.name).toBe('not-found');
+                    expect(router.globals.params.returnTo).toBe('/error/404');
+                });
+            })
+        )
+    );
+
+    it('Does redirect failed url types by the error policy of the configuration',
+        waitForAsync(
+            inject([], () => {
+                router.stateService.go('error', {param1: 403}).then(() => {
+                    expect(router.globals.current.name).toBe('forbidden');
+                });
+            })
+        )
+    );
+
+    it('Does reject failed url types without matching error rule',
+        waitForAsync(
+            inject([], () => {
+                router.stateService.go('error', {param1: 500}).then(() => {
+                    fail('Transition should not succeed');
+                }).catch((error) => {
+                    const
+                        detail: UrlTypeFactoryResolveError = error.detail;
+
+                    expect(detail instanceof UrlTypeFactoryResolveError).toBe(true);
+                    expect(detail.paramId).toBe('param1');
+                    expect(detail.typeName).toBe('ErrorTest');
+                    expect(detail.value).toBe(500);
+                    expect(detail.stateName).toBe('error');
+                    expect(detail.status).toBe(500);
+                    expect(detail.cause).toEqual({status: 500});
+                });
+            })
+        )
+    );
+
+    it('Does reject registering types with duplicate names',
+        waitForAsync(
+            inject([Injector], (injector: Injector) => {
+                let
+                    registrationError: UrlTypeFactoryRegistrationError = null;
+
+                try {
+                    service.registerType(new SyncTestType(), router, injector);
+                } catch (error) {
+                    registrationError = error;
+                }
+
+                expect(registrationError instanceof UrlTypeFactoryRegistrationError).toBe(true);
+                expect(registrationError.typeName).toBe('SyncTest');
+            })
+        )
+    );
+
+    it('Does pass parameters the type depends on to resolve',
+        waitForAsync(
+            inject([], () => {
+                router.stateService.go('type-dependency', {param1: 1, param2: 2}).then(() => {
+                    const
+                        params = router.globals.params;
+
+                    expect(params.param1.pk).toBe(1);
+                    expect(params.param1.params.param2.attr1).toBe('async-value1');
+                });
+            })
+        )
+    );
+
+    it('Does not share cached objects of url types resolved with other dependencies',
+        waitForAsync(
+            inject([], () => {
+                router.stateService.go('cache-dependency', {org: 1, param1: 5})
+                    .then(() => {
+                        expect(router.globals.params.param1.params.org).toBe(1);
+
+                        return router.stateService.go('cache-dependency', {org: 2, param1: 5});
+                    })
+                    .then(() => {
+                        expect(router.globals.params.param1.pk).toBe(5);
+                        expect(router.globals.params.param1.params.org).toBe(2);
+                    });
+            })
+        )
+    );
+
+    it('Does pass parameters the state declares as dependencies to resolve',
+        waitForAsync(
+            inject([], () => {
+                router.stateService.go('state-dependency', {param1: 1, param2: 2}).then(() => {
+                    const
+                        params = router.globals.params;
+
+                    expect(params.param2.pk).toBe(2);
+                    expect(params.param2.params.param1.attr1).toBe('sync-value1');
+                });
+            })
+        )
+    );
+
+    it('Does reject registering states with cyclic dependencies',
+        waitForAsync(
+            inject([], () => {
+                expect(() => {
+                    router.stateRegistry.register({
+                        name: 'cyclic-dependency',
+                        url: '/cyclic-dependency/{param1:ContextTest}/{param2:ContextTest}',
+                        data: {
+                            paramDependencies: {
+                                param1: ['param2'],
+                                param2: ['param1'],
+                            },
+                        },
+                    });
+                }).toThrowError(UrlTypeFactoryRegistrationError);
+            })
+        )
+    );
+
+    it('Does resolve array url types by resolveMany',
+        waitForAsync(
+            inject([], () => {
+                ManyTestType['resolved'] = [];
+                ManyTestType['resolvedMany'] = [];
+
+                router.stateService.go('many', {param1: ['1', '2', '3']}).then(() => {
+                    const
+                        params = router.globals.params,
+                        component = appComponent.query(By.directive(SyncTestComponent)).componentInstance;
+
+                    expect(ManyTestType['resolved']).toEqual([]);
+                    expect(ManyTestType['resolvedMany']).toEqual([['1', '2', '3']]);
+                    expect(params.param1.map((p) => p.pk)).toEqual([1, 2, 3]);
+                    expect(component.param1.map((p) => p.pk)).toEqual([1, 2, 3]);
+                });
+            })
+        )
+    );
+
+    it('Does resolve array url types without resolveMany',
+        waitForAsync(
+            inject([], () => {
+                router.stateService.go('sync-many', {param1: [1, 2]}).then(() => {
+                    const
+                        params = router.globals.params;
+
+                    expect(params.param1.length).toBe(2);
+                    expect(params.param1[0].attr1).toBe('sync-value1');
+                    expect(params.param1[1].attr1).toBe('sync-value1');
+                });
+            })
+        )
+    );
+
+    it('Does represent array url types in url',
+        waitForAsync(
+            inject([], () => {
+                const
+                    url = router.stateService.href('many', {param1: [{pk: 1}, {pk: 2}]});
+
+                expect(url).toBe('#/many?param1=1&param1=2');
+            })
+        )
+    );
+
+    it('Does bind missing optional url types as null',
+        waitForAsync(
+            inject([], () => {
+                router.stateService.go('optional').then(() => {
+                    const
+                        component = appComponent.query(By.directive(SyncTestComponent)).componentInstance;
+
+                    expect(router.globals.params.param1).toBe(null);
+                    expect(component.param1).toBe(null);
+                });
+            })
+        )
+    );
+
+    it('Does bind missing query url types as null',
+        waitForAsync(
+            inject([], () => {
+                router.stateService.go('query').then(() => {
+                    expect(router.globals.params.param1).toBe(null);
+                });
+            })
+        )
+    );
+
+    it('Does resolve given query url types',
+        waitForAsync(
+            inject([], () => {
+                router.stateService.go('query', {param1: 1}).then(() => {
+                    expect(router.globals.params.param1.attr1).toBe('sync-value1');
+                });
+            })
+        )
+    );
 
+    it('Does resolve default values of url types',
+        waitForAsync(
+            inject([], () => {
+                router.stateService.go('default').then(() => {
+                    expect(router.globals.params.param1.pk).toBe(5);
+                });
+            })
+        )
+    );
 
-describe('UrlTypeFactoryService', () => {
-    let
-        fixture: ComponentFixture<AppComponent> = null,
-        router: UIRouter = null,
-        appComponent: DebugElement = null;
+    it('Does squash default values of url types in url',
+        waitForAsync(
+            inject([], () => {
+                expect(router.stateService.href('default', {param1: 5})).toBe('#/default');
+                expect(router.stateService.href('default', {param1: {pk: 5}})).toBe('#/default');
+                expect(router.stateService.href('default', {param1: 6})).toBe('#/default/6');
+                expect(router.stateService.href('optional', {param1: null})).toBe('#/optional');
+            })
+        )
+    );
 
-    beforeEach(
-        waitForAsync(() => {
-            TestBed.configureTestingModule({
-                declarations: [
-                    AppComponent,
-                    SyncTestComponent,
-                    AsyncTestComponent,
-                    SyncAsyncTestComponent,
-                    MatchTestComponent,
-                    ResolveTestComponent,
-                ],
-                imports: [
-                    UIRouterModule.forRoot(routingConfig),
-                    NgxUIRouterUrlTypeFactoryModule.forRoot({
-                        types: [
-                            SyncTestType,
-                            AsyncTestType,
-                            MatchTestType,
-                            ResolveTestType,
-                        ]
-                    }),
-                ],
-            });
+    it('Does enter states if canActivate allows the url types',
+        waitForAsync(
+            inject([], () => {
+                router.stateService.go('permission', {param1: 1}).then(() => {
+                    fixture.detectChanges();
 
-            fixture = TestBed.createComponent(AppComponent);
-            fixture.detectChanges();
+                    const
+                        component: SyncTestComponent = appComponent.query(By.css('ng-component')).componentInstance;
 
-            appComponent = fixture.debugElement;
+                    expect(router.globals.current.name).toBe('permission');
+                    expect(component.param1.pk).toBe(1);
+                });
+            })
+        )
+    );
 
-            router = fixture.debugElement.injector.get(UIRouter);
-        })
+    it('Does abort transitions if canActivate denies the url types',
+        waitForAsync(
+            inject([], () => {
+                router.stateService.go('permission', {param1: 2}).then(() => {
+                    fail('Transition should not succeed');
+                }).catch((error) => {
+                    expect(error.type).toBe(RejectType.ABORTED);
+                });
+            })
+        )
     );
 
-    it('Does resolve synchronous url types',
+    it('Does redirect transitions to the target state returned by canActivate',
         waitForAsync(
             inject([], () => {
-                router.stateService.go('sync', {param1: 1}).then(() => {
+                router.stateService.go('permission', {param1: 3}).then(() => {
+                    expect(router.globals.current.name).toBe('forbidden');
+                });
+            })
+        )
+    );
+
+    it('Does fetch rest url types from their endpoint',
+        waitForAsync(
+            inject([HttpTestingController], (httpMock: HttpTestingController) => {
+                router.stateService.go('rest', {param1: 1}).then(() => {
+                    expect(router.globals.params.param1.pk).toBe(1);
+                    expect(router.globals.params.param1.mapped).toBe(true);
+                });
+
+                timer(0).subscribe(() => {
                     const
-                        params = router.globals.params;
+                        request = httpMock.expectOne('/api/projects/1/');
 
-                    expect(params.param1.pk).toBe(1);
-                    expect(params.param1.attr1).toBe('sync-value1');
-                    expect(params.param1.attr2).toBe('sync-value2');
+                    expect(request.request.headers.get('Authorization')).toBe('Token test');
+
+                    request.flush({pk: 1});
                 });
             })
         )
     );
 
-    it('Does resolve asynchronous url types',
+    it('Does pass the objects rest url types depend on to their endpoint',
         waitForAsync(
-            inject([], () => {
-                router.stateService.go('async', {param1: 1}).then(() => {
+            inject([HttpTestingController], (httpMock: HttpTestingController) => {
+                router.stateService.go('rest-dependency', {param2: 1, param1: 3}).then(() => {
+                    expect(router.globals.params.param1.pk).toBe(3);
+                    expect(router.globals.params.param1.project).toBe(1);
+                });
+
+                timer(0).subscribe(() => {
                     const
-                        params = router.globals.params;
+                        request = httpMock.expectOne('/api/projects/1/tasks/3/');
 
-                    expect(params.param1.pk).toBe(1);
-                    expect(params.param1.attr1).toBe('async-value1');
-                    expect(params.param1.attr2).toBe('async-value2');
+                    expect(request.request.headers.get('X-Project')).toBe('1');
+
+                    request.flush({pk: 3});
                 });
             })
         )
     );
 
-    it('Does resolve synchronous and asynchronous url types',
+    it('Does represent rest url types by their key',
         waitForAsync(
             inject([], () => {
-                router.stateService.go('sync-async', {param1: 1, param2: 1}).then(() => {
-                    const
-                        params = router.globals.params;
+                expect(router.stateService.href('rest', {param1: {pk: 7}})).toBe('#/rest/7');
+            })
+        )
+    );
 
-                    expect(params.param1.pk).toBe(1);
-                    expect(params.param1.attr1).toBe('sync-value1');
-                    expect(params.param1.attr2).toBe('sync-value2');
+    it('Does create url types by the injector',
+        waitForAsync(
+            inject([], () => {
+                router.stateService.go('injected', {param1: 1}).then(() => {
+                    expect(router.globals.params.param1.pk).toBe(1);
+                    expect(router.globals.params.param1.source).toBe('service');
+                });
+            })
+        )
+    );
 
-                    expect(params.param2.pk).toBe(1);
-                    expect(params.param2.attr1).toBe('async-value1');
-                    expect(params.param2.attr2).toBe('async-value2');
+    it('Does register url types of lazy-loaded modules',
+        waitForAsync(
+            inject([], () => {
+                router.stateService.go('lazy', {param1: 1}).then(() => {
+                    expect(router.globals.current.name).toBe('lazy');
+                    expect(router.globals.params.param1.pk).toBe(1);
+                    expect(router.globals.params.param1.source).toBe('lazy');
                 });
             })
         )
     );
 
-    it('Does bind synchronous url types',
+    it('Does reject registering types of lazy-loaded modules with duplicate names',
         waitForAsync(
             inject([], () => {
-                router.stateService.go('sync', {param1: 1}).then(() => {
+                router.stateService.go('lazy-duplicate', {param1: 1}).then(() => {
+                    fail('Transition should not succeed');
+                }).catch((error) => {
                     const
-                        component = appComponent.query(By.directive(SyncTestComponent)).componentInstance;
+                        detail: UrlTypeFactoryRegistrationError = error.detail;
 
-                    expect(component.param1.pk).toBe(1);
-                    expect(component.param1.attr1).toBe('sync-value1');
-                    expect(component.param1.attr2).toBe('sync-value2');
+                    expect(detail instanceof UrlTypeFactoryRegistrationError).toBe(true);
+                    expect(detail.typeName).toBe('SyncTest');
                 });
             })
         )
     );
 
-    it('Does bind asynchronous url types',
+    it('Does emit lifecycle events of resolved url types',
         waitForAsync(
             inject([], () => {
-                router.stateService.go('async', {param1: 1}).then(() => {
-                    const
-                        component = appComponent.query(By.directive(AsyncTestComponent)).componentInstance;
+                const
+                    events: UrlTypeResolveEvent[] = [];
 
-                    expect(component.param1.pk).toBe(1);
-                    expect(component.param1.attr1).toBe('async-value1');
-                    expect(component.param1.attr2).toBe('async-value2');
+                service.events$.subscribe((event) => events.push(event));
+
+                router.stateService.go('async', {param1: 11}).then(() => {
+                    expect(events.map((event) => event.type)).toEqual(['resolveStart', 'resolveSuccess']);
+                    expect(events[1].transition).toBe(events[0].transition);
+                    expect(events[1].paramId).toBe('param1');
+                    expect(events[1].typeName).toBe('AsyncTest');
+                    expect(events[1].value).toBe(11);
+                    expect(events[1].duration).toBeGreaterThanOrEqual(0);
                 });
             })
         )
     );
 
-    it('Does bind synchronous and asynchronous url types',
+    it('Does emit lifecycle events of failed url types',
         waitForAsync(
             inject([], () => {
-                router.stateService.go('sync-async', {param1: 1, param2: 1}).then(() => {
-                    const
-                        component = appComponent.query(By.directive(SyncAsyncTestComponent)).componentInstance;
+                const
+                    events: UrlTypeResolveEvent[] = [];
 
-                    expect(component.param1.pk).toBe(1);
-                    expect(component.param1.attr1).toBe('sync-value1');
-                    expect(component.param1.attr2).toBe('sync-value2');
+                service.events$.subscribe((event) => events.push(event));
 
-                    expect(component.param2.pk).toBe(1);
-                    expect(component.param2.attr1).toBe('async-value1');
-                    expect(component.param2.attr2).toBe('async-value2');
+                router.stateService.go('error', {param1: 500}).catch(() => {
+                    expect(events.map((event) => event.type)).toEqual(['resolveStart', 'resolveError']);
+                    expect(events[1].error).toEqual({status: 500});
                 });
             })
         )
     );
 
-    it('Does represent primitive in url',
+    it('Does emit lifecycle events of cancelled url types',
         waitForAsync(
             inject([], () => {
                 const
-                    url = router.stateService.href('sync-async', {param1: 1, param2: 2});
+                    events: UrlTypeResolveEvent[] = [];
 
-                expect(url).toBe('#/sync-async/1/2');
+                service.events$.subscribe((event) => events.push(event));
+
+                CancelTestType['resolving'] = () => {
+                    router.stateService.go('sync', {param1: 1}).then(() => {
+                        expect(events.filter((event) => event.paramId === 'param1' && event.typeName === 'CancelTest')
+                            .map((event) => event.type)).toEqual(['resolveStart', 'resolveCancelled']);
+                    });
+                };
+
+                router.stateService.go('cancel', {param1: 2}).catch(() => null);
             })
         )
     );
 
-    it('Does represent objects in url',
+    it('Does emit if url types are resolving',
         waitForAsync(
             inject([], () => {
                 const
-                    url = router.stateService.href('sync-async', {
-                        param1: {
-                            pk: 1,
-                        },
-                        param2: {
-                            pk: 2,
-                        }
-                    });
+                    resolving: boolean[] = [];
 
-                expect(url).toBe('#/sync-async/1/2');
+                service.isResolving$.subscribe((value) => resolving.push(value));
+
+                router.stateService.go('async', {param1: 12}).then(() => {
+                    expect(resolving).toEqual([false, true, false]);
+                });
             })
         )
     );
 
-    it('Does get url if param matches the type pattern',
+    it('Does retry failed url types by the resolve policy',
+        waitForAsync(
+            inject([], () => {
+                RetryTestType['attempts'] = 0;
+
+                router.stateService.go('retry', {param1: 1}).then(() => {
+                    expect(RetryTestType['attempts']).toBe(3);
+                    expect(router.globals.params.param1.pk).toBe(1);
+                });
+            })
+        )
+    );
+
+    it('Does not retry failed url types the resolve policy does not apply to',
+        waitForAsync(
+            inject([], () => {
+                RetryTestType['attempts'] = 0;
+
+                router.stateService.go('retry', {param1: '404'}).then(() => {
+                    fail('Transition should not succeed');
+                }).catch((error) => {
+                    expect(RetryTestType['attempts']).toBe(1);
+                    expect(error.detail.status).toBe(404);
+                });
+            })
+        )
+    );
+
+    it('Does reject url types exceeding the timeout of the resolve policy',
+        waitForAsync(
+            inject([], () => {
+                router.stateService.go('timeout', {param1: 1}).then(() => {
+                    fail('Transition should not succeed');
+                }).catch((error) => {
+                    const
+                        detail: UrlTypeFactoryResolveTimeoutError = error.detail;
+
+                    expect(detail instanceof UrlTypeFactoryResolveTimeoutError).toBe(true);
+                    expect(detail instanceof UrlTypeFactoryResolveError).toBe(true);
+                    expect(detail.typeName).toBe('TimeoutTest');
+                    expect(detail.timeout).toBe(10);
+                });
+            })
+        )
+    );
+
+    it('Does reuse objects prefetched on hover for changing state',
         waitForAsync(
             inject([], () => {
                 const
-                    url = router.stateService.href('match', {param1: 'a-1'});
+                    prefetchFixture = TestBed.createComponent(PrefetchTestComponent);
 
-                expect(url).toBe('#/match/a-1');
+                PrefetchTestType['resolved'] = [];
+                prefetchFixture.componentInstance.param = 21;
+                prefetchFixture.detectChanges();
+                prefetchFixture.debugElement.query(By.css('a')).triggerEventHandler('mouseenter', null);
+
+                prefetchFixture.whenStable().then(() => {
+                    expect(PrefetchTestType['resolved']).toEqual(['21']);
+
+                    return router.stateService.go('prefetch', {param1: 21});
+                }).then(() => {
+                    expect(PrefetchTestType['resolved']).toEqual(['21']);
+                    expect(router.globals.params.param1.pk).toBe(21);
+                });
             })
         )
     );
 
-    it('Does not get url if param does not match the type pattern',
+    it('Does use prefetched objects of types without cache configuration once',
+        waitForAsync(
+            inject([], () => {
+                PrefetchTestType['resolved'] = [];
+
+                service.prefetch(router.stateService.target('prefetch', {param1: 23})).then(() => {
+                    return router.stateService.go('prefetch', {param1: 23});
+                }).then(() => {
+                    return router.stateService.go('sync', {param1: 1});
+                }).then(() => {
+                    return router.stateService.go('prefetch', {param1: 23});
+                }).then(() => {
+                    expect(PrefetchTestType['resolved']).toEqual(['23', '23']);
+                });
+            })
+        )
+    );
+
+    it('Does prefetch objects of visible links',
         waitForAsync(
             inject([], () => {
                 const
-                    url = router.stateService.href('match', {param1: 'b-1'});
+                    prefetchFixture = TestBed.createComponent(PrefetchTestComponent);
 
-                expect(url).toBe(null);
+                PrefetchTestType['resolved'] = [];
+                prefetchFixture.componentInstance.param = 22;
+                prefetchFixture.componentInstance.trigger = 'visible';
+                prefetchFixture.detectChanges();
+
+                prefetchFixture.whenStable().then(() => {
+                    expect(PrefetchTestType['resolved']).toEqual(['22']);
+                });
             })
         )
     );
 
-    it('Does not call resolve for creating the url from primitive',
+    it('Does use objects transferred from the server for the first transition',
+        waitForAsync(
+            inject([TransferState], (transferState: TransferState) => {
+                TransferTestType['resolved'] = [];
+                transferState.set(makeStateKey<any>('ngx-ui-router-url-type-factory:TransferTest:31'), {id: 31});
+
+                router.stateService.go('transfer', {param1: 31}).then(() => {
+                    expect(TransferTestType['resolved']).toEqual([]);
+                    expect(router.globals.params.param1.pk).toBe(31);
+                    expect(router.globals.params.param1.transferred).toBe(true);
+
+                    return router.stateService.go('sync', {param1: 1});
+                }).then(() => {
+                    return router.stateService.go('transfer', {param1: 31});
+                }).then(() => {
+                    expect(TransferTestType['resolved']).toEqual(['31']);
+                    expect(router.globals.params.param1.transferred).toBeUndefined();
+                });
+            })
+        )
+    );
+
+    it('Does store objects resolved on the server in the transfer state',
+        waitForAsync(
+            inject([TransferState, Injector], (transferState: TransferState, injector: Injector) => {
+                const
+                    serverService = new UrlTypeFactoryService({types: []}, transferState, 'server'),
+                    type = new TransferTestType(),
+                    optOutType = new TransferTestType(),
+                    context: UrlTypeResolveContext = {
+                        transition: null,
+                        signal: new AbortController().signal,
+                        params: {},
+                    };
+
+                TransferTestType['resolved'] = [];
+                optOutType.name = 'TransferOptOutTest';
+                optOutType.transferState = false;
+
+                Promise.all([
+                    firstValueFrom(serverService.resolveValue(type, 32, injector, context)),
+                    firstValueFrom(serverService.resolveValue(optOutType, 32, injector, context)),
+                ]).then(() => {
+                    expect(transferState.get(makeStateKey('ngx-ui-router-url-type-factory:TransferTest:32'), null))
+                        .toEqual({id: 32});
+                    expect(transferState.hasKey(makeStateKey('ngx-ui-router-url-type-factory:TransferOptOutTest:32')))
+                        .toBe(false);
+                });
+            })
+        )
+    );
+
+    it('Does bind url types to the inputs mapped by the state',
         waitForAsync(
             inject([], () => {
-                ResolveTestType['resolved'] = false;
+                router.stateService.go('binding', {param1: 1}).then(() => {
+                    const
+                        component = appComponent.query(By.directive(BindingTestComponent)).componentInstance;
 
-                router.stateService.href('resolve', {param1: 1});
+                    expect(component.project.pk).toBe(1);
+                    expect(component.param1.pk).toBe(1);
+                });
+            })
+        )
+    );
 
-                expect(ResolveTestType['resolved']).toBe(false);
+    it('Does provide url types by the injection token of the type',
+        waitForAsync(
+            inject([], () => {
+                router.stateService.go('binding', {param1: 1}).then(() => {
+                    fixture.detectChanges();
+
+                    const
+                        component = appComponent.query(By.directive(TokenTestComponent)).componentInstance;
+
+                    expect(component.project.pk).toBe(1);
+                    expect(getUrlTypeToken('SyncTest')).toBe(getUrlTypeToken(new SyncTestType()));
+                });
             })
         )
     );
 
-    it('Does not call resolve for creating the url from object',
+    it('Does replace non-canonical urls of url types',
         waitForAsync(
             inject([], () => {
-                ResolveTestType['resolved'] = false;
+                CanonicalTestType['resolved'] = [];
 
-                router.stateService.href('resolve', {param1: {
-                    pk: 1,
-                }});
+                router.urlService.url('/canonical/42');
 
-                expect(ResolveTestType['resolved']).toBe(false);
+                router.transitionService.onSuccess({to: 'canonical'}, () => {
+                    timer(10).subscribe(() => {
+                        expect(router.urlService.path()).toBe('/canonical/42-my-project');
+                        expect(CanonicalTestType['resolved']).toEqual(['42']);
+                        expect(router.globals.params.param1.pk).toBe(42);
+                    });
+                });
             })
         )
     );
 
-    it('Does call resolve for changing state from primitive',
+    it('Does not replace urls of url types matching the canonical url by the comparison rule',
         waitForAsync(
             inject([], () => {
-                ResolveTestType['resolved'] = false;
+                CanonicalTestType['resolved'] = [];
 
-                router.stateService.go('resolve', {param1: 1}).then(() => {
-                    expect(ResolveTestType['resolved']).toBe(true);
+                router.urlService.url('/canonical/43-MY-PROJECT');
+
+                router.transitionService.onSuccess({to: 'canonical'}, () => {
+                    timer(10).subscribe(() => {
+                        expect(router.urlService.path()).toBe('/canonical/43-MY-PROJECT');
+                        expect(CanonicalTestType['resolved']).toEqual(['43-MY-PROJECT']);
+                    });
                 });
             })
         )
     );
 
-    it('Does not call resolve for changing state from object',
+    it('Does list the registered types',
         waitForAsync(
             inject([], () => {
-                ResolveTestType['resolved'] = false;
+                const
+                    registration = service.registeredTypes.filter((type) => type.name === 'SyncTest')[0];
+
+                expect(registration.pattern).toBe(service.getTypeByName('SyncTest', false).match);
+                expect(registration.bindable).toBe(true);
+                expect(registration.states).toContain('sync');
+                expect(registration.states).toContain('sync-async');
+                expect(registration.states).not.toContain('async');
+                expect(Object.isFrozen(registration)).toBe(true);
+            })
+        )
+    );
 
-                router.stateService.go('resolve', {param1: {
-                    pk: 1,
-                }}).then(() => {
-                    expect(ResolveTestType['resolved']).toBe(false);
+    it('Does inspect resolved parameters and cached objects by the devtools hook',
+        waitForAsync(
+            inject([], () => {
+                service.installDevtoolsHook(router);
+
+                router.stateService.go('cache', {param1: 4}).then(() => {
+                    const
+                        hook = window[URL_TYPE_FACTORY_DEVTOOLS_HOOK];
+
+                    expect(hook.params().param1.pk).toBe(4);
+                    expect(hook.cache().CacheTest['4'].settled).toBe(true);
+                    expect(hook.cache().CacheTest['4'].resolved.pk).toBe(4);
+                    expect(hook.types().length).toBe(service.registeredTypes.length);
                 });
             })
         )
     );
 
+    it('Does log encode and decode steps in debug mode',
+        waitForAsync(
+            inject([Injector], (injector: Injector) => {
+                const
+                    debugService = new UrlTypeFactoryService({types: [], debug: true}),
+                    type = new SyncTestType();
+
+                spyOn(console, 'debug');
+                type.name = 'DebugTest';
+                debugService.registerType(type, router, injector);
+
+                router.urlService.config.type('DebugTest').encode({pk: 3});
+
+                expect(console.debug).toHaveBeenCalledWith(
+                    jasmine.stringMatching(/encode DebugTest \(\d+ ms\)/), {pk: 3}, '3'
+                );
+            })
+        )
+    );
+
 });
@@ -1,38 +1,39 @@
 import { Injector } from '@angular/core';
 
-import { Transition } from '@uirouter/angular';
 import { UIRouter } from '@uirouter/core/lib/router';
 
+import { UrlType } from './url-type-factory-types';
+import { UrlTypeFactoryPlugin } from './url-type-factory-plugin';
 import { UrlTypeFactoryService } from './url-type-factory.service';
+import { URL_TYPE } from './url-type-factory-configuration';
 
 
 /**
- * Configures the ui-router module.
+ * Configures the ui-router module. Sets up the `UrlTypeFactoryPlugin` with the Angular service
+ * as factory and the injector as dependency lookup.
  * @param {UIRouter} router
  * @param {Injector} injector
  */
 export function configure(router: UIRouter, injector: Injector) {
-    const service = injector.get(UrlTypeFactoryService),
-        configuration = service.configuration;
+    router.plugin(UrlTypeFactoryPlugin, {
+        factory: injector.get(UrlTypeFactoryService),
+        injector: injector,
+        types: injector.get(URL_TYPE, []),
+    });
+}
 
-    /*
-     * Register all types of the module configuration.
-     */
-    for (const typeClass of configuration.types) {
-        service.registerType(new typeClass(), router, injector);
-    }
 
-    /*
-     * Configure the transition event handler to deal with the ui-router types.
-     */
-    router.transitionService.onStart(
-        {
-            to: (state) => {
-                return service.getTypeParamsFromStateObject(state, false).length !== 0;
-            }
-        },
-        (transition: Transition) => {
-            return service.doTransition(transition);
-        }
-    );
+/**
+ * Registers the types of a lazy-loaded module on the running ui-router. The types resolve
+ * their objects with the injector of that module.
+ * @param {UIRouter} router
+ * @param {Injector} injector
+ * @param {UrlType<any>[]} types
+ */
+export function configureChild(router: UIRouter, injector: Injector, types: UrlType<any>[]) {
+    const service = injector.get(UrlTypeFactoryService);
+
+    for (const type of types) {
+        service.registerType(type, router, injector);
+    }
 }
@@ -1,7 +1,19 @@
-import { ModuleWithProviders, NgModule } from '@angular/core';
+import { Inject, Injector, ModuleWithProviders, NgModule, Optional, Self } from '@angular/core';
 
+import { UIRouter } from '@uirouter/core';
+
+import { configureChild } from "./factory/url-type-factory";
+import { UrlType } from "./factory/url-type-factory-types";
 import { UrlTypeFactoryService } from "./factory/url-type-factory.service";
+import { UrlTypeOutletDirective } from "./directives/url-type-outlet.directive";
+import { UrlTypePrefetchDirective } from "./directives/url-type-prefetch.directive";
+import { UrlTypeViewDirective } from "./directives/url-type-view.directive";
+import { UrlTypeRouteResolver } from "./router/url-type-route.resolver";
+import { registerUrlTypeInstances } from "./router/url-type-route-matcher";
 import {
+    CHILD_URL_TYPE,
+    URL_TYPE,
+    UrlTypeFactoryChildConfiguration,
     UrlTypeFactoryConfiguration,
     URL_TYPE_FACTORY_CONFIGURATION
 } from "./factory/url-type-factory-configuration";
@@ -9,21 +21,68 @@ import {
 
 @NgModule({
     imports: [],
-    exports: [],
-    declarations: [],
-    providers: [/* declare in `forRoot()` */],
+    exports: [
+        UrlTypeOutletDirective,
+        UrlTypePrefetchDirective,
+        UrlTypeViewDirective,
+    ],
+    declarations: [
+        UrlTypeOutletDirective,
+        UrlTypePrefetchDirective,
+        UrlTypeViewDirective,
+    ],
+    providers: [/* declare in `forRoot()` and `forChild()` */],
 })
 export class NgxUIRouterUrlTypeFactoryModule {
 
+    /**
+     * Registers the types provided by `forChild()` as soon as a lazy-loaded module gets created,
+     * and the types created by the injector of this module for Angular routes.
+     * @param {UrlType<any>[]} childTypes
+     * @param {UrlType<any>[]} types
+     * @param {Injector} injector
+     */
+    constructor(@Optional() @Self() @Inject(CHILD_URL_TYPE) childTypes: UrlType<any>[],
+                @Optional() @Self() @Inject(URL_TYPE) types: UrlType<any>[],
+                injector: Injector) {
+        const router = injector.get(UIRouter, null);
+
+        if (childTypes && router) {
+            configureChild(router, injector, childTypes);
+        }
+
+        registerUrlTypeInstances([...(types || []), ...(childTypes || [])]);
+    }
+
     static forRoot(config: UrlTypeFactoryConfiguration): ModuleWithProviders<NgxUIRouterUrlTypeFactoryModule> {
         return {
             ngModule: NgxUIRouterUrlTypeFactoryModule,
             providers: [
                 UrlTypeFactoryService,
+                UrlTypeRouteResolver,
                 {
                     provide: URL_TYPE_FACTORY_CONFIGURATION,
                     useValue: config,
-                }
+                },
+                ...(config.types || []).map((type) => ({
+                    provide: URL_TYPE,
+                    useClass: type,
+                    multi: true,
+                })),
+            ]
+        };
+    }
+
+    static forChild(config: UrlTypeFactoryChildConfiguration): ModuleWithProviders<NgxUIRouterUrlTypeFactoryModule> {
+        return {
+            ngModule: NgxUIRouterUrlTypeFactoryModule,
+            providers: [
+                UrlTypeRouteResolver,
+                ...config.types.map((type) => ({
+                    provide: CHILD_URL_TYPE,
+                    useClass: type,
+                    multi: true,
+                })),
             ]
         };
     }
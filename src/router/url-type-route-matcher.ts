@@ -0,0 +1,119 @@
+import { Type } from '@angular/core';
+import { Route, UrlMatcher, UrlMatchResult, UrlSegment, UrlSegmentGroup } from '@angular/router';
+
+import { UrlType } from '../factory/url-type-factory-types';
+
+
+/**
+ * URL types of the parameters of an Angular route by parameter ID, either as instances or as
+ * classes. Classes listed in the `types` of the module configuration or provided by `URL_TYPE`
+ * get the instance created by the injector.
+ */
+export interface UrlTypeRouteParams {
+    [paramId: string]: UrlType<any> | Type<UrlType<any>>;
+}
+
+
+/**
+ * Key of the route data holding the path of a route created by `createUrlTypeRoute`.
+ */
+export const URL_TYPE_ROUTE_PATH = 'urlTypePath';
+
+/**
+ * Key of the route data holding the URL type parameters of a route created by `createUrlTypeRoute`.
+ */
+export const URL_TYPE_ROUTE_PARAMS = 'urlTypeParams';
+
+
+const URL_TYPE_INSTANCES = new Map<Type<UrlType<any>>, UrlType<any>>();
+
+
+/**
+ * Registers the given URL types created by the injector as the instances of their classes,
+ * so routes listing these classes use them. Route matchers are not passed any injector.
+ * @param {UrlType<any>[]} types
+ */
+export function registerUrlTypeInstances(types: UrlType<any>[]) {
+    for (const type of types) {
+        if (type.constructor !== Object) {
+            URL_TYPE_INSTANCES.set(<Type<UrlType<any>>>type.constructor, type);
+        }
+    }
+}
+
+
+/**
+ * Gets the instance of the given URL type or type class. Classes get the instance created by
+ * the injector if they got registered by the module, other classes are created once without
+ * arguments, so they must not have constructor dependencies.
+ * @param {UrlType<T> | Type<UrlType<T>>} type
+ * @returns {UrlType<T>}
+ */
+export function getUrlTypeInstance<T>(type: UrlType<T> | Type<UrlType<T>>): UrlType<T> {
+    if (typeof type !== 'function') {
+        return type;
+    }
+
+    let instance = URL_TYPE_INSTANCES.get(type);
+
+    if (!instance) {
+        instance = new type();
+        URL_TYPE_INSTANCES.set(type, instance);
+    }
+
+    return instance;
+}
+
+
+/**
+ * Creates an Angular `UrlMatcher` of the given route path, e.g. `projects/:project`. The
+ * segments of parameters listed in the given URL types only match if they match the
+ * `match` regex of their type, other parameters match any segment.
+ * @param {string} path
+ * @param {UrlTypeRouteParams} params
+ * @returns {UrlMatcher}
+ */
+export function createUrlTypeMatcher(path: string, params: UrlTypeRouteParams): UrlMatcher {
+    const parts = path.split('/').filter((part) => part !== '');
+
+    return (segments: UrlSegment[], group: UrlSegmentGroup, route: Route): UrlMatchResult => {
+        if (parts.length > segments.length) {
+            return null;
+        }
+
+        /*
+         * Full matches must consume all segments, the same way as the default matcher.
+         */
+        if (route.pathMatch === 'full' && (group.hasChildren() || parts.length < segments.length)) {
+            return null;
+        }
+
+        const posParams: { [name: string]: UrlSegment } = {};
+
+        for (let i = 0; i < parts.length; i++) {
+            const part = parts[i],
+                segment = segments[i];
+
+            if (part.charAt(0) !== ':') {
+                if (part !== segment.path) {
+                    return null;
+                }
+                continue;
+            }
+
+            const paramId = part.substring(1),
+                type = params[paramId] ? getUrlTypeInstance(params[paramId]) : null;
+
+            if (type && !new RegExp(`^(?:${type.match.source})$`, type.match.flags).test(segment.path)) {
+                return null;
+            }
+
+            posParams[paramId] = segment;
+        }
+
+        return {
+            consumed: segments.slice(0, parts.length),
+            posParams: posParams,
+        };
+    };
+}
@@ -0,0 +1,212 @@
+import { Injectable, Injector } from '@angular/core';
+import { ActivatedRouteSnapshot, Resolve } from '@angular/router';
+
+import { firstValueFrom, Observable } from 'rxjs';
+
+import { createResolveError, UrlTypeFactoryRegistrationError } from '../factory/url-type-factory-error';
+import { UrlTypeFactoryService } from '../factory/url-type-factory.service';
+import { UrlTypeResolveContext } from '../factory/url-type-factory-types';
+import { getUrlTypeInstance, URL_TYPE_ROUTE_PARAMS, URL_TYPE_ROUTE_PATH } from './url-type-route-matcher';
+
+
+/**
+ * Key of the route data the `UrlTypeRouteResolver` resolves to.
+ */
+export const URL_TYPE_ROUTE_RESOLVE_KEY = 'urlTypes';
+
+
+/**
+ * Result of the `UrlTypeRouteResolver`.
+ */
+export interface UrlTypeRouteResolved {
+
+    /**
+     * Resolved objects by parameter ID.
+     */
+    values: { [paramId: string]: any };
+
+    /**
+     * Resolved objects of bindable types by the name of the component input they get bound to.
+     */
+    bindings: { [input: string]: any };
+
+}
+
+
+/**
+ * Resolver of the URL type parameters of Angular routes created by `createUrlTypeRoute`. The
+ * objects are resolved by the `UrlTypeFactoryService`, so they use its cache and its resolve
+ * policies. Resolving gets aborted if the navigation gets cancelled. Routes of lazy-loaded
+ * modules importing `forChild()` resolve their objects with the injector of that module.
+ */
+@Injectable()
+export class UrlTypeRouteResolver implements Resolve<UrlTypeRouteResolved> {
+
+    constructor(protected _service: UrlTypeFactoryService, protected _injector: Injector) {
+    }
+
+    resolve(route: ActivatedRouteSnapshot): Observable<UrlTypeRouteResolved> {
+        return new Observable<UrlTypeRouteResolved>((subscriber) => {
+            const controller = new AbortController();
+
+            this.resolveParams(route, controller.signal).then(
+                (resolved) => {
+                    subscriber.next(resolved);
+                    subscriber.complete();
+                },
+                (error) => subscriber.error(error)
+            );
+
+            return () => controller.abort();
+        });
+    }
+
+    /**
+     * Resolves the objects of all URL type parameters of the given route, and the inputs they
+     * get bound to. Parameters of bindable types are bound to the input named like the parameter,
+     * and to the inputs listed for the parameter in `data.paramBindings` of the route.
+     * @param {ActivatedRouteSnapshot} route
+     * @param {AbortSignal} signal
+     * @returns {Promise<UrlTypeRouteResolved>}
+     */
+    protected resolveParams(route: ActivatedRouteSnapshot, signal: AbortSignal): Promise<UrlTypeRouteResolved> {
+        const params = route.data[URL_TYPE_ROUTE_PARAMS] || {},
+            paramBindings = route.data.paramBindings || {},
+            paramIds = Object.keys(params),
+            promises: { [paramId: string]: Promise<any> } = {},
+            visiting: string[] = [];
+
+        /*
+         * Resolve the parameters a parameter depends on first, each of them only once.
+         */
+        const resolveParam = (paramId: string): Promise<any> => {
+            if (promises[paramId]) {
+                return promises[paramId];
+            }
+
+            if (visiting.indexOf(paramId) !== -1) {
+                const cycle = visiting.slice(visiting.indexOf(paramId)).concat(paramId);
+
+                return Promise.reject(new UrlTypeFactoryRegistrationError(
+                    `The URL parameters of the route '${route.data[URL_TYPE_ROUTE_PATH]}' have
+                    cyclic dependencies: ${cycle.join(' -> ')}.`,
+                    {
+                        stateName: route.data[URL_TYPE_ROUTE_PATH],
+                        paramId: paramId,
+                    }
+                ));
+            }
+
+            const type = getUrlTypeInstance(params[paramId]),
+                value = route.paramMap.get(paramId),
+                dependencyIds = this.getParamDependencies(route, paramId);
+
+            visiting.push(paramId);
+
+            const dependencies = Promise.all(dependencyIds.map((dependencyId) => paramIds.indexOf(dependencyId) !== -1 ?
+                resolveParam(dependencyId) :
+                this.getInheritedValue(route, dependencyId)
+            ));
+
+            visiting.pop();
+
+            promises[paramId] = dependencies.then((objects) => {
+                const context: UrlTypeResolveContext = {
+                    transition: null,
+                    signal: signal,
+                    params: {},
+                };
+
+                dependencyIds.forEach((dependencyId, i) => context.params[dependencyId] = objects[i]);
+
+                return firstValueFrom(this._service.resolveValue(type, value, this._injector, context)).catch((error) => {
+                    throw createResolveError(
+                        `for the route '${route.data[URL_TYPE_ROUTE_PATH]}'`,
+                        {
+                            paramId: paramId,
+                            typeName: type.name,
+                            value: value,
+                            stateName: route.data[URL_TYPE_ROUTE_PATH],
+                            cause: error,
+                        },
+                        this._service.getResolvePolicy(type).timeout
+                    );
+                });
+            });
+
+            return promises[paramId];
+        };
+
+        return Promise.all(paramIds.map(resolveParam)).then((objects) => {
+            const resolved: UrlTypeRouteResolved = {
+                values: {},
+                bindings: {},
+            };
+
+            paramIds.forEach((paramId, i) => {
+                const bindings = paramBindings[paramId] || [];
+
+                resolved.values[paramId] = objects[i];
+
+                if (getUrlTypeInstance(params[paramId]).bindable) {
+                    for (const input of [paramId, ...(Array.isArray(bindings) ? bindings : [bindings])]) {
+                        resolved.bindings[input] = objects[i];
+                    }
+                }
+            });
+
+            return resolved;
+        });
+    }
+
+    /**
+     * Gets the IDs of the parameters the given parameter of the given route depends on: the
+     * parameters listed for the parameter in `data.paramDependencies` of the route, and the URL
+     * type parameters of the route and its parent routes whose types are listed by `dependsOn`
+     * of the parameter type.
+     * @param {ActivatedRouteSnapshot} route
+     * @param {string} paramId
+     * @returns {string[]}
+     */
+    protected getParamDependencies(route: ActivatedRouteSnapshot, paramId: string): string[] {
+        const type = getUrlTypeInstance(route.data[URL_TYPE_ROUTE_PARAMS][paramId]),
+            declaredIds = route.data.paramDependencies && route.data.paramDependencies[paramId],
+            dependencyIds: string[] = (declaredIds || []).slice();
+
+        for (const snapshot of route.pathFromRoot) {
+            const params = snapshot.data[URL_TYPE_ROUTE_PARAMS] || {};
+
+            for (const dependencyId of Object.keys(params)) {
+                if ((snapshot !== route || dependencyId !== paramId) &&
+                    type.dependsOn && type.dependsOn.indexOf(getUrlTypeInstance(params[dependencyId]).name) !== -1 &&
+                    dependencyIds.indexOf(dependencyId) === -1) {
+                    dependencyIds.push(dependencyId);
+                }
+            }
+        }
+
+        return dependencyIds;
+    }
+
+    /**
+     * Gets the object of the given parameter resolved for a parent route, or the raw value of
+     * the parameter if it is no URL type parameter of a parent route.
+     * @param {ActivatedRouteSnapshot} route
+     * @param {string} paramId
+     * @returns {any}
+     */
+    protected getInheritedValue(route: ActivatedRouteSnapshot, paramId: string): any {
+        for (let snapshot = route; snapshot; snapshot = snapshot.parent) {
+            const resolved: UrlTypeRouteResolved = snapshot !== route ? snapshot.data[URL_TYPE_ROUTE_RESOLVE_KEY] : null;
+
+            if (resolved && resolved.values.hasOwnProperty(paramId)) {
+                return resolved.values[paramId];
+            } else if (snapshot.paramMap.has(paramId)) {
+                return snapshot.paramMap.get(paramId);
+            }
+        }
+
+        return undefined;
+    }
+
+}
@@ -0,0 +1,505 @@
+import { Component, DebugElement, Injectable, Input, NgModule } from '@angular/core';
+import { ComponentFixture, inject, TestBed, waitForAsync } from '@angular/core/testing';
+import { By } from '@angular/platform-browser';
+import { Route, Router, RouterModule } from '@angular/router';
+import { RouterTestingModule } from '@angular/router/testing';
+
+import { NgxUIRouterUrlTypeFactoryModule } from '../module';
+import { UrlType, UrlTypeInjector, UrlTypeResolveContext } from '../factory/url-type-factory-types';
+import {
+    UrlTypeFactoryResolveError,
+    UrlTypeFactoryResolveTimeoutError
+} from '../factory/url-type-factory-error';
+import { createUrlTypeLink, createUrlTypeRoute } from './url-type-route';
+
+
+@Component({
+    template: `<router-outlet></router-outlet>`
+})
+export class AppComponent {
+}
+
+
+@Component({
+    template: `<router-outlet></router-outlet>`
+})
+export class ParentRouteTestComponent {
+}
+
+
+@Component({
+    template: `ProjectRouteTestComponent`
+})
+export class ProjectRouteTestComponent {
+    @Input() project: any;
+    @Input() item: any;
+}
+
+
+export class ProjectRouteTestType implements UrlType<any> {
+    name = 'Project';
+    match = /\d+/;
+    bindable = true;
+
+    represent(obj: any): string {
+        return String(obj.pk);
+    }
+
+    resolve(matched: string, injector: UrlTypeInjector) {
+        if (matched === '13') {
+            return Promise.reject({status: 404});
+        }
+
+        return Promise.resolve({
+            'pk': Number(matched),
+            'name': `Project ${matched}`,
+            'router': injector.get(Router) instanceof Router,
+        });
+    }
+
+}
+
+
+@Injectable()
+export class ProjectRouteTestService {
+
+    get(pk: number) {
+        return Promise.resolve({
+            'pk': pk,
+            'source': 'service',
+        });
+    }
+
+}
+
+
+@Injectable()
+export class InjectedRouteTestType implements UrlType<any> {
+    name = 'InjectedProject';
+    match = /\d+/;
+    bindable = true;
+
+    constructor(protected _projects: ProjectRouteTestService) {
+    }
+
+    represent(obj: any): string {
+        return String(obj.pk);
+    }
+
+    resolve(matched: string) {
+        return this._projects.get(Number(matched));
+    }
+
+}
+
+
+export class OrganisationRouteTestType implements UrlType<any> {
+    name = 'Organisation';
+    match = /[a-z]+/;
+    bindable = true;
+
+    represent(obj: any): string {
+        return obj.slug;
+    }
+
+    resolve(matched: string) {
+        return Promise.resolve({
+            'slug': matched,
+        });
+    }
+
+}
+
+
+export class DependencyRouteTestType implements UrlType<any> {
+    name = 'DependencyProject';
+    match = /\d+/;
+    bindable = true;
+    dependsOn = ['Organisation'];
+
+    represent(obj: any): string {
+        return String(obj.pk);
+    }
+
+    resolve(matched: string, _injector: UrlTypeInjector, context: UrlTypeResolveContext) {
+        return Promise.resolve({
+            'pk': Number(matched),
+            'params': context.params,
+        });
+    }
+
+}
+
+
+export class TimeoutRouteTestType implements UrlType<any> {
+    name = 'TimeoutProject';
+    match = /\d+/;
+    bindable = true;
+    resolvePolicy = {
+        timeout: 10,
+    };
+
+    represent(obj: any): string {
+        return String(obj.pk);
+    }
+
+    resolve(_matched: string) {
+        return new Promise(() => null);
+    }
+
+}
+
+
+@Injectable()
+export class LazyRouteTestService {
+}
+
+
+@Component({
+    template: `LazyRouteTestComponent`
+})
+export class LazyRouteTestComponent {
+    @Input() project: any;
+}
+
+
+@NgModule({
+    declarations: [
+        LazyRouteTestComponent,
+    ],
+    exports: [
+        LazyRouteTestComponent,
+    ],
+    entryComponents: [
+        LazyRouteTestComponent,
+    ],
+})
+export class LazyRouteTestComponentModule {
+}
+
+
+export class LazyRouteTestType implements UrlType<any> {
+    name = 'LazyProject';
+    match = /\d+/;
+    bindable = true;
+
+    represent(obj: any): string {
+        return String(obj.pk);
+    }
+
+    resolve(matched: string, injector: UrlTypeInjector) {
+        return Promise.resolve({
+            'pk': Number(matched),
+            'lazy': injector.get(LazyRouteTestService, null) !== null,
+        });
+    }
+
+}
+
+
+@NgModule({
+    imports: [
+        LazyRouteTestComponentModule,
+        RouterModule.forChild([
+            createUrlTypeRoute({
+                path: ':project',
+                params: {
+                    project: LazyRouteTestType,
+                },
+                component: LazyRouteTestComponent,
+            }),
+        ]),
+        NgxUIRouterUrlTypeFactoryModule.forChild({
+            types: [],
+        }),
+    ],
+    providers: [
+        LazyRouteTestService,
+    ],
+})
+export class LazyRouteTestModule {
+}
+
+
+export const projectRoute = createUrlTypeRoute({
+    path: 'project/:project',
+    params: {
+        project: ProjectRouteTestType,
+    },
+    component: ProjectRouteTestComponent,
+    data: {
+        paramBindings: {
+            project: 'item',
+        },
+    },
+});
+
+
+export const parentRoute: Route = {
+    path: 'parent',
+    component: ParentRouteTestComponent,
+    children: [
+        createUrlTypeRoute({
+            path: 'p/:project',
+            params: {
+                project: ProjectRouteTestType,
+            },
+            component: ProjectRouteTestComponent,
+        }),
+    ],
+};
+
+
+export const otherRoutes: Route[] = [
+    createUrlTypeRoute({
+        path: 'injected/:project',
+        params: {
+            project: InjectedRouteTestType,
+        },
+        component: ProjectRouteTestComponent,
+    }),
+    createUrlTypeRoute({
+        path: 'org/:org/project/:project',
+        params: {
+            org: OrganisationRouteTestType,
+            project: DependencyRouteTestType,
+        },
+        component: ProjectRouteTestComponent,
+    }),
+    createUrlTypeRoute({
+        path: 'org/:org',
+        params: {
+            org: OrganisationRouteTestType,
+        },
+        component: ParentRouteTestComponent,
+        children: [
+            createUrlTypeRoute({
+                path: 'p/:project',
+                params: {
+                    project: DependencyRouteTestType,
+                },
+                component: ProjectRouteTestComponent,
+            }),
+        ],
+    }),
+    createUrlTypeRoute({
+        path: 'timeout/:project',
+        params: {
+            project: TimeoutRouteTestType,
+        },
+        component: ProjectRouteTestComponent,
+    }),
+    {
+        path: 'lazy',
+        loadChildren: () => Promise.resolve(LazyRouteTestModule),
+    },
+];
+
+
+describe('createUrlTypeRoute', () => {
+    let
+        fixture: ComponentFixture<AppComponent> = null,
+        router: Router = null,
+        appComponent: DebugElement = null;
+
+    beforeEach(
+        waitForAsync(() => {
+            TestBed.configureTestingModule({
+                declarations: [
+                    AppComponent,
+                    ParentRouteTestComponent,
+                    ProjectRouteTestComponent,
+                ],
+                imports: [
+                    LazyRouteTestComponentModule,
+                    RouterTestingModule.withRoutes([projectRoute, parentRoute, ...otherRoutes]),
+                    NgxUIRouterUrlTypeFactoryModule.forRoot({
+                        types: [
+                            InjectedRouteTestType,
+                        ],
+                    }),
+                ],
+                providers: [
+                    ProjectRouteTestService,
+                ],
+            });
+
+            fixture = TestBed.createComponent(AppComponent);
+            fixture.detectChanges();
+
+            appComponent = fixture.debugElement;
+
+            router = fixture.debugElement.injector.get(Router);
+        })
+    );
+
+    it('Does resolve url types of matching urls',
+        waitForAsync(
+            inject([], () => {
+                router.navigateByUrl('/project/42').then((navigated) => {
+                    expect(navigated).toBe(true);
+                    expect(router.routerState.snapshot.root.firstChild.data.urlTypes.values.project).toEqual({
+                        'pk': 42,
+                        'name': 'Project 42',
+                        'router': true,
+                    });
+                });
+            })
+        )
+    );
+
+    it('Does bind url types to component inputs',
+        waitForAsync(
+            inject([], () => {
+                router.navigateByUrl('/project/42').then(() => {
+                    fixture.detectChanges();
+
+                    const
+                        component = appComponent.query(By.directive(ProjectRouteTestComponent)).componentInstance;
+
+                    expect(component.project.name).toBe('Project 42');
+                    expect(component.item).toBe(component.project);
+                });
+            })
+        )
+    );
+
+    it('Does bind url types to component inputs of child routes',
+        waitForAsync(
+            inject([], () => {
+                router.navigateByUrl('/parent/p/42').then((navigated) => {
+                    fixture.detectChanges();
+
+                    const
+                        component = appComponent.query(By.directive(ProjectRouteTestComponent)).componentInstance;
+
+                    expect(navigated).toBe(true);
+                    expect(component.project.name).toBe('Project 42');
+                });
+            })
+        )
+    );
+
+    it('Does update bound component inputs on param change',
+        waitForAsync(
+            inject([], () => {
+                router.navigateByUrl('/project/42')
+                    .then(() => router.navigateByUrl('/project/43'))
+                    .then(() => {
+                        fixture.detectChanges();
+
+                        const
+                            component = appComponent.query(By.directive(ProjectRouteTestComponent)).componentInstance;
+
+                        expect(component.project.name).toBe('Project 43');
+                    });
+            })
+        )
+    );
+
+    it('Does not match urls not matching the url type',
+        waitForAsync(
+            inject([], () => {
+                router.navigateByUrl('/project/abc').then(() => {
+                    fail('Navigation should not succeed');
+                }).catch((error) => {
+                    expect(error.message).toContain('Cannot match any routes');
+                });
+            })
+        )
+    );
+
+    it('Does reject urls of url types failing to resolve',
+        waitForAsync(
+            inject([], () => {
+                router.navigateByUrl('/project/13').then(() => {
+                    fail('Navigation should not succeed');
+                }).catch((error) => {
+                    expect(error instanceof UrlTypeFactoryResolveError).toBe(true);
+                    expect(error.paramId).toBe('project');
+                    expect(error.status).toBe(404);
+                });
+            })
+        )
+    );
+
+    it('Does create url types listed in the module configuration by the injector',
+        waitForAsync(
+            inject([], () => {
+                router.navigateByUrl('/injected/42').then((navigated) => {
+                    expect(navigated).toBe(true);
+                    expect(router.routerState.snapshot.root.firstChild.data.urlTypes.values.project).toEqual({
+                        'pk': 42,
+                        'source': 'service',
+                    });
+                });
+            })
+        )
+    );
+
+    it('Does resolve url types of lazy-loaded routes by the injector of their module',
+        waitForAsync(
+            inject([], () => {
+                router.navigateByUrl('/lazy/42').then((navigated) => {
+                    expect(navigated).toBe(true);
+                    expect(router.routerState.snapshot.root.firstChild.firstChild.data.urlTypes.values.project).toEqual({
+                        'pk': 42,
+                        'lazy': true,
+                    });
+                });
+            })
+        )
+    );
+
+    it('Does pass the objects of url types depended on of the route',
+        waitForAsync(
+            inject([], () => {
+                router.navigateByUrl('/org/acme/project/42').then((navigated) => {
+                    expect(navigated).toBe(true);
+                    expect(router.routerState.snapshot.root.firstChild.data.urlTypes.values.project).toEqual({
+                        'pk': 42,
+                        'params': {
+                            org: {'slug': 'acme'},
+                        },
+                    });
+                });
+            })
+        )
+    );
+
+    it('Does pass the objects of url types depended on of parent routes',
+        waitForAsync(
+            inject([], () => {
+                router.navigateByUrl('/org/acme/p/42').then((navigated) => {
+                    expect(navigated).toBe(true);
+                    expect(router.routerState.snapshot.root.firstChild.firstChild.data.urlTypes.values.project).toEqual({
+                        'pk': 42,
+                        'params': {
+                            org: {'slug': 'acme'},
+                        },
+                    });
+                });
+            })
+        )
+    );
+
+    it('Does reject urls of url types exceeding the timeout of the resolve policy',
+        waitForAsync(
+            inject([], () => {
+                router.navigateByUrl('/timeout/42').then(() => {
+                    fail('Navigation should not succeed');
+                }).catch((error) => {
+                    expect(error instanceof UrlTypeFactoryResolveTimeoutError).toBe(true);
+                    expect(error.paramId).toBe('project');
+                    expect(error.timeout).toBe(10);
+                });
+            })
+        )
+    );
+
+    it('Does create links of objects', () => {
+        expect(createUrlTypeLink(projectRoute, {project: {pk: 42}})).toEqual(['project', '42']);
+        expect(createUrlTypeLink(projectRoute, {project: 42})).toEqual(['project', '42']);
+    });
+
+});
@@ -0,0 +1,87 @@
+import { Route } from '@angular/router';
+
+import {
+    createUrlTypeMatcher,
+    getUrlTypeInstance,
+    URL_TYPE_ROUTE_PARAMS,
+    URL_TYPE_ROUTE_PATH,
+    UrlTypeRouteParams
+} from './url-type-route-matcher';
+import { URL_TYPE_ROUTE_RESOLVE_KEY, UrlTypeRouteResolver } from './url-type-route.resolver';
+
+
+/**
+ * Angular route with URL type parameters.
+ */
+export interface UrlTypeRoute extends Route {
+
+    /**
+     * Path of the route with its parameters, e.g. `projects/:project`.
+     */
+    path: string;
+
+    /**
+     * URL types of the parameters by parameter ID.
+     */
+    params: UrlTypeRouteParams;
+
+}
+
+
+/**
+ * Creates an Angular route of the given route with URL type parameters. The route matches the
+ * `match` regex of the parameter types, and resolves the objects of the parameters to the
+ * route data `urlTypes` before it gets activated. The objects of bindable types are bound to
+ * the component inputs by the `router-outlet`.
+ * @param {UrlTypeRoute} route
+ * @returns {Route}
+ */
+export function createUrlTypeRoute(route: UrlTypeRoute): Route {
+    const angularRoute: Route = Object.assign({}, route, {
+        matcher: createUrlTypeMatcher(route.path, route.params),
+        resolve: Object.assign({}, route.resolve, {
+            [URL_TYPE_ROUTE_RESOLVE_KEY]: UrlTypeRouteResolver,
+        }),
+        data: Object.assign({}, route.data, {
+            [URL_TYPE_ROUTE_PATH]: route.path,
+            [URL_TYPE_ROUTE_PARAMS]: route.params,
+        }),
+    });
+
+    /*
+     * Angular routes must not have both a path and a matcher.
+     */
+    delete angularRoute.path;
+    delete angularRoute['params'];
+
+    return angularRoute;
+}
+
+
+/**
+ * Creates the link commands of the given route created by `createUrlTypeRoute` for
+ * `routerLink` or `Router.navigate`, relative to the parent route. Objects of URL type
+ * parameters are represented by their types, e.g. `['projects', '42']`.
+ * @param {Route} route
+ * @param {{[paramId: string]: any}} values
+ * @returns {string[]}
+ */
+export function createUrlTypeLink(route: Route, values: { [paramId: string]: any }): string[] {
+    const path: string = route.data[URL_TYPE_ROUTE_PATH],
+        params: UrlTypeRouteParams = route.data[URL_TYPE_ROUTE_PARAMS];
+
+    return path.split('/').filter((part) => part !== '').map((part) => {
+        if (part.charAt(0) !== ':') {
+            return part;
+        }
+
+        const paramId = part.substring(1),
+            value = values[paramId];
+
+        if (params[paramId] && value !== null && typeof value === 'object') {
+            return getUrlTypeInstance(params[paramId]).represent(value);
+        }
+
+        return String(value);
+    });
+}
@@ -0,0 +1,193 @@
+import { Component, DebugElement, Input } from '@angular/core';
+import { ComponentFixture, inject, TestBed, waitForAsync } from '@angular/core/testing';
+import { By } from '@angular/platform-browser';
+
+import { UIRouter } from '@uirouter/core';
+import { UIRouterModule } from '@uirouter/angular';
+
+import { configure } from '../factory/url-type-factory';
+import { UrlType } from '../factory/url-type-factory-types';
+import { NgxUIRouterUrlTypeFactoryTestingModule } from './module';
+import { rejectFixture } from './url-type-factory-testing-configuration';
+import { createFixtureUrlType } from './url-type-factory-testing.service';
+import { UrlTypeTestingController } from './url-type-testing-controller';
+
+
+@Component({
+    template: `<ui-view></ui-view>`
+})
+export class AppComponent {
+}
+
+
+@Component({
+    template: `ProjectTestComponent`
+})
+export class ProjectTestComponent {
+    @Input() project: any;
+}
+
+
+export class UserTestType implements UrlType<any> {
+    name = 'User';
+    match = /\d+/;
+    bindable = true;
+
+    represent(obj: any): string {
+        return String(obj.pk);
+    }
+
+    resolve(matched: string) {
+        return {
+            'pk': Number(matched),
+            'source': 'type',
+        };
+    }
+
+}
+
+
+export const ProjectTestType = createFixtureUrlType('Project', {match: /\d+/});
+
+
+export const routingConfig = {
+    states: [
+        {
+            name: 'project',
+            url: '/project/{project:Project}',
+            component: ProjectTestComponent,
+        },
+        {
+            name: 'user',
+            url: '/user/{user:User}',
+        },
+    ],
+    useHash: true,
+    config: configure,
+};
+
+
+describe('NgxUIRouterUrlTypeFactoryTestingModule', () => {
+    let
+        fixture: ComponentFixture<AppComponent> = null,
+        router: UIRouter = null,
+        controller: UrlTypeTestingController = null,
+        appComponent: DebugElement = null;
+
+    beforeEach(
+        waitForAsync(() => {
+            TestBed.configureTestingModule({
+                declarations: [
+                    AppComponent,
+                    ProjectTestComponent,
+                ],
+                imports: [
+                    UIRouterModule.forRoot(routingConfig),
+                    NgxUIRouterUrlTypeFactoryTestingModule.forRoot({
+                        types: [
+                            ProjectTestType,
+                            UserTestType,
+                        ],
+                        fixtures: {
+                            Project: {
+                                '42': {pk: 42, name: 'Project 42'},
+                                '13': rejectFixture({status: 403}),
+                            },
+                        },
+                        delays: {
+                            Project: 5,
+                        },
+                    }),
+                ],
+            });
+
+            fixture = TestBed.createComponent(AppComponent);
+            fixture.detectChanges();
+
+            appComponent = fixture.debugElement;
+
+            router = fixture.debugElement.injector.get(UIRouter);
+            controller = fixture.debugElement.injector.get(UrlTypeTestingController);
+            controller.reset();
+        })
+    );
+
+    afterEach(() => {
+        /*
+         * The hash is shared by all tests, reset it so the router of the next test does not
+         * sync to the URL the previous test navigated to.
+         */
+        window.history.replaceState(null, '', window.location.pathname);
+    });
+
+    it('Does resolve url types by their fixtures',
+        waitForAsync(
+            inject([], () => {
+                controller.navigate('project', {project: 42}).then(() => {
+                    fixture.detectChanges();
+
+                    const
+                        component = appComponent.query(By.directive(ProjectTestComponent)).componentInstance;
+
+                    expect(component.project.name).toBe('Project 42');
+                });
+            })
+        )
+    );
+
+    it('Does record resolve calls',
+        waitForAsync(
+            inject([], () => {
+                controller.navigate('project', {project: 42}).then(() => {
+                    const
+                        calls = controller.callsOf('Project');
+
+                    expect(calls.length).toBe(1);
+                    expect(calls[0].matched).toBe('42');
+                    expect(calls[0].context.transition.to().name).toBe('project');
+                });
+            })
+        )
+    );
+
+    it('Does reject url types by their fixtures',
+        waitForAsync(
+            inject([], () => {
+                controller.navigate('project', {project: 13}).then(() => {
+                    fail('Transition should not succeed');
+                }).catch((error) => {
+                    expect(error.detail.status).toBe(403);
+                });
+            })
+        )
+    );
+
+    it('Does reject url types missing in their fixtures',
+        waitForAsync(
+            inject([], () => {
+                controller.setFixture('Project', 7, {pk: 7, name: 'Project 7'});
+
+                controller.navigate('project', {project: 7}).then(() => {
+                    return controller.navigate('project', {project: 8});
+                }).then(() => {
+                    fail('Transition should not succeed');
+                }).catch((error) => {
+                    expect(router.globals.params.project.name).toBe('Project 7');
+                    expect(error.detail.status).toBe(404);
+                });
+            })
+        )
+    );
+
+    it('Does resolve url types without fixtures by the type',
+        waitForAsync(
+            inject([], () => {
+                controller.navigate('user', {user: 5}).then(() => {
+                    expect(router.globals.params.user.source).toBe('type');
+                    expect(controller.callsOf('User').length).toBe(1);
+                });
+            })
+        )
+    );
+
+});
@@ -0,0 +1,46 @@
+import { ModuleWithProviders, NgModule } from '@angular/core';
+
+import { NgxUIRouterUrlTypeFactoryModule } from "../module";
+import { UrlTypeFactoryService } from "../factory/url-type-factory.service";
+import { UrlTypeTestingController } from "./url-type-testing-controller";
+import { UrlTypeFactoryTestingService } from "./url-type-factory-testing.service";
+import {
+    UrlTypeFactoryTestingConfiguration,
+    URL_TYPE_FACTORY_TESTING_CONFIGURATION
+} from "./url-type-factory-testing-configuration";
+
+
+/**
+ * Module replacing `NgxUIRouterUrlTypeFactoryModule.forRoot()` in tests. The types resolve their
+ * fixtures, and the `UrlTypeTestingController` records the resolve calls.
+ */
+@NgModule({
+    imports: [
+        NgxUIRouterUrlTypeFactoryModule,
+    ],
+    exports: [
+        NgxUIRouterUrlTypeFactoryModule,
+    ],
+    providers: [/* declare in `forRoot()` */],
+})
+export class NgxUIRouterUrlTypeFactoryTestingModule {
+
+    static forRoot(config: UrlTypeFactoryTestingConfiguration): ModuleWithProviders<NgxUIRouterUrlTypeFactoryTestingModule> {
+        return {
+            ngModule: NgxUIRouterUrlTypeFactoryTestingModule,
+            providers: [
+                ...NgxUIRouterUrlTypeFactoryModule.forRoot(config).providers,
+                UrlTypeTestingController,
+                {
+                    provide: UrlTypeFactoryService,
+                    useClass: UrlTypeFactoryTestingService,
+                },
+                {
+                    provide: URL_TYPE_FACTORY_TESTING_CONFIGURATION,
+                    useValue: config,
+                },
+            ]
+        };
+    }
+
+}
@@ -0,0 +1,60 @@
+import { InjectionToken } from '@angular/core';
+
+import { UrlTypeFactoryConfiguration } from '../factory/url-type-factory-configuration';
+
+
+/**
+ * Fixture value that makes the resolve of its represented value reject with the given error.
+ */
+export class UrlTypeFixtureRejection {
+
+    constructor(public readonly error: any) {
+    }
+
+}
+
+
+/**
+ * Creates a fixture value that makes the resolve of its represented value reject with the
+ * given error, e.g. `{Project: {'13': rejectFixture({status: 403})}}`.
+ * @param {any} error
+ * @returns {UrlTypeFixtureRejection}
+ */
+export function rejectFixture(error: any): UrlTypeFixtureRejection {
+    return new UrlTypeFixtureRejection(error);
+}
+
+
+/**
+ * Resolved objects by type name and represented value.
+ */
+export interface UrlTypeFixtures {
+    [typeName: string]: { [repr: string]: any };
+}
+
+
+export interface UrlTypeFactoryTestingConfiguration extends UrlTypeFactoryConfiguration {
+
+    /**
+     * Objects the types resolve to, by type name and represented value. Values missing in the
+     * fixtures of a type reject with the status `404`. Types without fixtures are resolved
+     * by their own `resolve` method.
+     */
+    fixtures?: UrlTypeFixtures;
+
+    /**
+     * Time in milliseconds resolving a fixture takes. Fixtures are always resolved
+     * asynchronously. Defaults to `0`.
+     */
+    delay?: number;
+
+    /**
+     * Delays of single types by type name, overriding the delay of the configuration.
+     */
+    delays?: { [typeName: string]: number };
+
+}
+
+
+export const URL_TYPE_FACTORY_TESTING_CONFIGURATION =
+    new InjectionToken<UrlTypeFactoryTestingConfiguration>('NGX_UI_ROUTER_URL_TYPE_FACTORY_TESTING_CONFIGURATION');
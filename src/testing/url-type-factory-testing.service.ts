@@ -0,0 +1,88 @@
+import { Inject, Injectable, Optional, PLATFORM_ID, Type } from '@angular/core';
+import { TransferState } from '@angular/platform-browser';
+
+import { UIRouter } from '@uirouter/core/lib/router';
+
+import { UrlType, UrlTypeInjector, UrlTypeResolveContext } from '../factory/url-type-factory-types';
+import { UrlTypeFactoryService } from '../factory/url-type-factory.service';
+import {
+    UrlTypeFactoryConfiguration,
+    URL_TYPE_FACTORY_CONFIGURATION
+} from '../factory/url-type-factory-configuration';
+import { UrlTypeTestingController } from './url-type-testing-controller';
+
+
+/**
+ * Options of a URL type built by `createFixtureUrlType`.
+ */
+export interface FixtureUrlTypeOptions {
+
+    /**
+     * Regex the new type should match in the URL. Defaults to any path segment.
+     */
+    match?: RegExp;
+
+    /**
+     * Attribute of the fixtures that is used as their URL representation. Defaults to `pk`.
+     */
+    key?: string;
+
+}
+
+
+/**
+ * Creates a bindable URL type class for types that only exist in tests. It resolves its
+ * objects by the fixtures of the testing module only.
+ * @param {string} name
+ * @param {FixtureUrlTypeOptions} options
+ * @returns {Type<UrlType<any>>}
+ */
+export function createFixtureUrlType(name: string, options: FixtureUrlTypeOptions = {}): Type<UrlType<any>> {
+    return class FixtureUrlType implements UrlType<any> {
+        name = name;
+        match = options.match || /[^/]+/;
+        bindable = true;
+
+        represent(obj: any): string {
+            return String(obj[options.key || 'pk']);
+        }
+
+        resolve(matched: string) {
+            return Promise.reject(new Error(`There is no fixture for '${matched}' of the type '${name}'.`));
+        }
+    };
+}
+
+
+/**
+ * Service used by the `NgxUIRouterUrlTypeFactoryTestingModule`. It registers the types with their
+ * resolves redirected to the testing controller.
+ */
+@Injectable()
+export class UrlTypeFactoryTestingService extends UrlTypeFactoryService {
+
+    constructor(@Inject(URL_TYPE_FACTORY_CONFIGURATION) _configuration: UrlTypeFactoryConfiguration,
+                protected _controller: UrlTypeTestingController,
+                @Optional() _transferState: TransferState = null,
+                @Optional() @Inject(PLATFORM_ID) _platformId: Object = null) {
+        super(_configuration, _transferState, _platformId);
+    }
+
+    /**
+     * Registers the given type implementation on the ui-router, with its resolves redirected
+     * to the testing controller. Objects are resolved one by one, `resolveMany` is not used.
+     * @param {UrlType<T>} type
+     * @param {UIRouter} router
+     * @param {UrlTypeInjector} injector
+     */
+    registerType<T>(type: UrlType<T>, router: UIRouter, injector: UrlTypeInjector) {
+        const mock: UrlType<T> = Object.create(type);
+
+        mock.resolve = (matched: string, typeInjector: UrlTypeInjector, context?: UrlTypeResolveContext) =>
+            this._controller.resolve(type, matched, typeInjector, context);
+        mock.resolveMany = undefined;
+
+        super.registerType(mock, router, injector);
+    }
+
+}
@@ -0,0 +1,170 @@
+import { Inject, Injectable, Injector } from '@angular/core';
+
+import { RawParams, StateOrName, TransitionOptions, UIRouter } from '@uirouter/core';
+import { defer, firstValueFrom, Observable, throwError, timer } from 'rxjs';
+import { filter, mergeMap } from 'rxjs/operators';
+
+import { UrlType, UrlTypeInjector, UrlTypeResolveContext } from '../factory/url-type-factory-types';
+import { UrlTypeFactoryService } from '../factory/url-type-factory.service';
+import {
+    URL_TYPE_FACTORY_TESTING_CONFIGURATION,
+    UrlTypeFactoryTestingConfiguration,
+    UrlTypeFixtureRejection,
+    UrlTypeFixtures
+} from './url-type-factory-testing-configuration';
+
+
+/**
+ * A recorded call of `UrlType.resolve`.
+ */
+export interface UrlTypeResolveCall {
+
+    /**
+     * Name of the type that got resolved.
+     */
+    typeName: string;
+
+    /**
+     * The represented value that got resolved, as string.
+     */
+    matched: string;
+
+    /**
+     * Context the resolve got called with.
+     */
+    context: UrlTypeResolveContext;
+
+}
+
+
+/**
+ * Controller for tests using the `NgxUIRouterUrlTypeFactoryTestingModule`. It resolves the types
+ * by their fixtures, records all resolve calls and navigates the router.
+ */
+@Injectable()
+export class UrlTypeTestingController {
+
+    protected _fixtures: UrlTypeFixtures;
+    protected _delays: { [typeName: string]: number };
+    protected _calls: UrlTypeResolveCall[] = [];
+
+    constructor(@Inject(URL_TYPE_FACTORY_TESTING_CONFIGURATION) protected _configuration: UrlTypeFactoryTestingConfiguration,
+                protected _injector: Injector) {
+        const fixtures = this._configuration.fixtures || {};
+
+        this._fixtures = {};
+        this._delays = Object.assign({}, this._configuration.delays);
+
+        for (const typeName of Object.keys(fixtures)) {
+            this._fixtures[typeName] = Object.assign({}, fixtures[typeName]);
+        }
+    }
+
+    /**
+     * All recorded resolve calls, in the order of the calls.
+     * @returns {UrlTypeResolveCall[]}
+     */
+    get calls(): UrlTypeResolveCall[] {
+        return this._calls.slice();
+    }
+
+    /**
+     * Gets the recorded resolve calls of the type with the given name.
+     * @param {string} typeName
+     * @returns {UrlTypeResolveCall[]}
+     */
+    callsOf(typeName: string): UrlTypeResolveCall[] {
+        return this._calls.filter((call) => call.typeName === typeName);
+    }
+
+    /**
+     * Sets the fixture of the given type name and represented value. Rejections can be
+     * created by `rejectFixture`.
+     * @param {string} typeName
+     * @param {any} repr
+     * @param {any} value
+     */
+    setFixture(typeName: string, repr: any, value: any) {
+        this._fixtures[typeName] = this._fixtures[typeName] || {};
+        this._fixtures[typeName][String(repr)] = value;
+    }
+
+    /**
+     * Sets the time in milliseconds resolving the fixtures of the given type takes.
+     * @param {string} typeName
+     * @param {number} delay
+     */
+    setDelay(typeName: string, delay: number) {
+        this._delays[typeName] = delay;
+    }
+
+    /**
+     * Removes all recorded resolve calls.
+     */
+    reset() {
+        this._calls = [];
+    }
+
+    /**
+     * Records the resolve call of the given type and resolves its fixture. Types without
+     * fixtures are resolved by their own `resolve` method.
+     * @param {UrlType<T>} type
+     * @param {string} matched
+     * @param {UrlTypeInjector} injector
+     * @param {UrlTypeResolveContext} context
+     * @returns {Observable<T> | Promise<T> | {$promise: Promise<T>} | any}
+     */
+    resolve<T>(type: UrlType<T>, matched: string, injector: UrlTypeInjector, context: UrlTypeResolveContext):
+        Observable<T> | Promise<T> | { $promise: Promise<T> } | any {
+        const fixtures = this._fixtures[type.name],
+            delay = this._delays.hasOwnProperty(type.name) ? this._delays[type.name] : this._configuration.delay;
+
+        this._calls.push({
+            typeName: type.name,
+            matched: String(matched),
+            context: context,
+        });
+
+        if (!fixtures) {
+            return type.resolve(matched, injector, context);
+        }
+
+        return timer(delay || 0).pipe(
+            mergeMap(() => defer(() => {
+                const fixture = fixtures[String(matched)];
+
+                if (fixture instanceof UrlTypeFixtureRejection) {
+                    return throwError(() => fixture.error);
+                } else if (fixture === undefined) {
+                    return throwError(() => ({status: 404}));
+                }
+
+                return [fixture];
+            }))
+        );
+    }
+
+    /**
+     * Navigates to the given state and resolves as soon as no URL type is resolving anymore.
+     * Rejects if the transition fails.
+     * @param {StateOrName} to
+     * @param {RawParams} params
+     * @param {TransitionOptions} options
+     * @returns {Promise<any>}
+     */
+    navigate(to: StateOrName, params?: RawParams, options?: TransitionOptions): Promise<any> {
+        return this._injector.get(UIRouter).stateService.go(to, params, options)
+            .then(() => this.whenResolved());
+    }
+
+    /**
+     * Resolves as soon as no URL type is resolving anymore.
+     * @returns {Promise<void>}
+     */
+    whenResolved(): Promise<void> {
+        return firstValueFrom(
+            this._injector.get(UrlTypeFactoryService).isResolving$.pipe(filter((resolving) => !resolving))
+        ).then(() => undefined);
+    }
+
+}
@@ -13,10 +13,72 @@ const
  */
 const
     config = {
-        'entry': path.resolve(__dirname, '..', 'ngx-ui-router-url-type-factory'),
-        'dist': path.resolve(__dirname, '..', 'dist', 'bundle'),
-        'name': 'ngx-ui-router-url-type-factory'
+        'entries': [
+            'ngx-ui-router-url-type-factory',
+            'ngx-ui-router-url-type-factory-core',
+            'ngx-ui-router-url-type-factory-testing'
+        ],
+        'dist': path.resolve(__dirname, '..', 'dist', 'bundle')
+    };
+
+
+/**
+ * Camel cases the given dash separated name
+ */
+function camelCase(name) {
+    return name.replace(/-([\w])/g, function (g) { return g[1].toUpperCase(); });
+}
+
+
+/**
+ * Bundle entries, each as UMD library named by its camel cased file name
+ */
+const
+    entry = {};
+
+config.entries.forEach(function (name) {
+    entry[name] = {
+        'import': path.resolve(__dirname, '..', name),
+        'library': {
+            'name': camelCase(name),
+            'type': 'umd'
+        }
     };
+});
+
+
+/**
+ * Peer dependencies are not bundled, so the bundles share them with the application. Their
+ * globals are the ones of their UMD bundles, e.g. `ng.platformBrowser` or `rxjs.operators`.
+ */
+function externals(data, callback) {
+    const
+        request = data.request,
+        angular = /^@angular\/(.+)$/.exec(request),
+        uiRouter = /^(@uirouter\/[^/]+)(\/.*)?$/.exec(request),
+        rxjs = /^rxjs(\/(.+))?$/.exec(request);
+    let
+        root = null;
+
+    if (angular) {
+        root = ['ng'].concat(angular[1].split('/').map(camelCase));
+    } else if (uiRouter) {
+        root = uiRouter[1];
+    } else if (rxjs) {
+        root = rxjs[2] ? ['rxjs', rxjs[2]] : 'rxjs';
+    }
+
+    if (!root) {
+        return callback();
+    }
+
+    callback(null, {
+        'root': root,
+        'commonjs': request,
+        'commonjs2': request,
+        'amd': request
+    });
+}
 
 
 /**
@@ -31,12 +93,14 @@ const
  */
 module.exports = {
     devtool: false,
-    entry: config.entry,
+    entry: entry,
+    externals: [
+        externals
+    ],
+    externalsType: 'umd',
 
     output: {
-        filename: config.name + '.min.js',
-        library: config.name.replace(/-([\w])/g, function (g) { return g[1].toUpperCase(); }),
-        libraryTarget: 'umd',
+        filename: '[name].min.js',
         path: config.dist
     },
 
@@ -64,7 +128,16 @@ module.exports = {
             sourceMap: false,
             uglifyOptions: {
                 compress: {
-                    drop_console: true
+                    /**
+                     * Keep `console.debug`, the debug mode logs by it
+                     */
+                    pure_funcs: [
+                        'console.log',
+                        'console.info',
+                        'console.warn',
+                        'console.error',
+                        'console.trace'
+                    ]
                 }
             }
         })